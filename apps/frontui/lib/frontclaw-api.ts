@@ -43,6 +43,7 @@ export type FrontclawConfig = {
   features?: Record<string, unknown>;
   embedded_box?: Record<string, unknown>;
   webhooks?: Record<string, unknown>;
+  plugins?: Record<string, unknown>;
 };
 
 export type ChatStreamMeta = {
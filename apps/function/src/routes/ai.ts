@@ -283,6 +283,24 @@ export function registerAIRoutes(app: Hono, deps: AIRouteDeps) {
   } = deps;
   const chatLogger = createScopedLogger("chat");
 
+  // Persist through these so plugins hear about new conversations and messages
+  const createConversation = async (
+    input: Parameters<typeof pDB.createConversation>[0],
+  ) => {
+    const conversation = await pDB.createConversation(input);
+    if (conversation) {
+      orchestrator.publishEvent("conversation.created", { conversation });
+    }
+    return conversation;
+  };
+  const createMessage = async (
+    input: Parameters<typeof pDB.createMessage>[0],
+  ) => {
+    const message = await pDB.createMessage(input);
+    orchestrator.publishEvent("message.persisted", { message });
+    return message;
+  };
+
   app.get("/api/v1/conversations", async (c) => {
     try {
       const profileId = c.req.query("profileId");
@@ -320,7 +338,7 @@ export function registerAIRoutes(app: Hono, deps: AIRouteDeps) {
         metadata?: Record<string, unknown>;
       };
 
-      const conversation = await pDB.createConversation({
+      const conversation = await createConversation({
         profileId: body.profileId,
         title: body.title,
         metadata: body.metadata,
@@ -533,7 +551,7 @@ export function registerAIRoutes(app: Hono, deps: AIRouteDeps) {
           ? (conversation.metadata as Record<string, unknown>)
           : {};
 
-      const cloned = await pDB.createConversation({
+      const cloned = await createConversation({
         profileId: body.profileId ?? conversation.profileId ?? undefined,
         title: body.title ?? conversation.title ?? "Shared conversation",
         metadata: {
@@ -554,7 +572,7 @@ export function registerAIRoutes(app: Hono, deps: AIRouteDeps) {
       }
 
       for (const message of messagesToClone) {
-        await pDB.createMessage({
+        await createMessage({
           conversationId: cloned.id,
           role: message.role,
           content: message.content,
@@ -598,6 +616,7 @@ export function registerAIRoutes(app: Hono, deps: AIRouteDeps) {
       }
 
       const limit = parsePagingValue(c.req.query("limit"), 100);
+      const hookContext = { profileId: conversation.profileId ?? undefined };
       const requestedMessage = (c.req.query("message") || "").trim();
       const additionalSystemPrompt = (c.req.query("systemPrompt") || "").trim();
 
@@ -614,7 +633,10 @@ export function registerAIRoutes(app: Hono, deps: AIRouteDeps) {
         ? `${personalitySystemPrompt}\n\nAdditional system instructions:\n${additionalSystemPrompt}`
         : personalitySystemPrompt;
       const transformedSystemPrompt =
-        await orchestrator.transformSystemMessage(baseSystemPrompt);
+        await orchestrator.transformSystemMessage(
+          baseSystemPrompt,
+          hookContext,
+        );
       const finalSystemPrompt = toolContext
         ? `${transformedSystemPrompt}\n\n${toolContext}`
         : transformedSystemPrompt;
@@ -626,7 +648,10 @@ export function registerAIRoutes(app: Hono, deps: AIRouteDeps) {
 
       let userMessageForContext = requestedMessage;
       if (requestedMessage) {
-        const processedPrompt = await orchestrator.processPrompt(requestedMessage);
+        const processedPrompt = await orchestrator.processPrompt(
+          requestedMessage,
+          hookContext,
+        );
         if (!processedPrompt.success) {
           return c.json(
             {
@@ -655,7 +680,10 @@ export function registerAIRoutes(app: Hono, deps: AIRouteDeps) {
           : []),
       ];
 
-      const llmCallResult = await orchestrator.beforeLLMCall(pipelineMessages);
+      const llmCallResult = await orchestrator.beforeLLMCall(
+        pipelineMessages,
+        hookContext,
+      );
       if (!llmCallResult.success) {
         return c.json(
           {
@@ -722,7 +750,7 @@ export function registerAIRoutes(app: Hono, deps: AIRouteDeps) {
 
       let conversation = body.conversationId
         ? await pDB.getConversation(body.conversationId)
-        : await pDB.createConversation({
+        : await createConversation({
             profileId: body.profileId,
             title: body.title || deriveConversationTitle(message),
             metadata: {},
@@ -740,14 +768,15 @@ export function registerAIRoutes(app: Hono, deps: AIRouteDeps) {
       });
       const historyMessages = toConversationHistory(historyRows);
 
-      const userMessage = await pDB.createMessage({
+      const userMessage = await createMessage({
         conversationId: conversation.id,
         role: "user",
         content: message,
       });
       await pDB.touchConversation(conversation.id);
 
-      const promptResult = await orchestrator.processPrompt(message);
+      const hookContext = { profileId: conversation.profileId ?? undefined };
+      const promptResult = await orchestrator.processPrompt(message, hookContext);
       chatLogger.debug("Prompt pipeline result", {
         success: promptResult.success,
         interceptedBy: promptResult.interceptedBy,
@@ -782,7 +811,7 @@ export function registerAIRoutes(app: Hono, deps: AIRouteDeps) {
 
       if (promptResult.interceptedBy) {
         const interceptedText = toTextContent(promptResult.result);
-        const assistantMessage = await pDB.createMessage({
+        const assistantMessage = await createMessage({
           conversationId: conversation.id,
           role: "assistant",
           content: interceptedText,
@@ -818,7 +847,10 @@ export function registerAIRoutes(app: Hono, deps: AIRouteDeps) {
         ? `${personalitySystemPrompt}\n\nAdditional system instructions:\n${additionalSystemPrompt}`
         : personalitySystemPrompt;
       const transformedSystemPrompt =
-        await orchestrator.transformSystemMessage(baseSystemPrompt);
+        await orchestrator.transformSystemMessage(
+          baseSystemPrompt,
+          hookContext,
+        );
       const finalSystemPrompt = toolContext
         ? `${transformedSystemPrompt}\n\n${toolContext}`
         : transformedSystemPrompt;
@@ -829,7 +861,10 @@ export function registerAIRoutes(app: Hono, deps: AIRouteDeps) {
         { role: "user" as const, content: promptResult.result || message },
       ];
 
-      const llmCallResult = await orchestrator.beforeLLMCall(pipelineMessages);
+      const llmCallResult = await orchestrator.beforeLLMCall(
+        pipelineMessages,
+        hookContext,
+      );
       chatLogger.debug("Pre-LLM pipeline result", {
         success: llmCallResult.success,
         interceptedBy: llmCallResult.interceptedBy,
@@ -850,7 +885,7 @@ export function registerAIRoutes(app: Hono, deps: AIRouteDeps) {
 
       if (llmCallResult.interceptedBy) {
         const interceptedText = toTextContent(llmCallResult.result);
-        const assistantMessage = await pDB.createMessage({
+        const assistantMessage = await createMessage({
           conversationId: conversation.id,
           role: "assistant",
           content: interceptedText,
@@ -906,7 +941,11 @@ export function registerAIRoutes(app: Hono, deps: AIRouteDeps) {
           });
 
           try {
-            const skillResult = await orchestrator.executeSkill(toolName, args);
+            const skillResult = await orchestrator.executeSkill(
+              toolName,
+              args,
+              hookContext,
+            );
             if (skillResult.success) {
               const durationMs = Date.now() - startedAt;
               chatLogger.debug("Skill execution completed", {
@@ -940,9 +979,12 @@ export function registerAIRoutes(app: Hono, deps: AIRouteDeps) {
               return routing.llmPayload;
             }
 
-            const toolResult = await orchestrator.executeTool(toolName, args, {
-              source: "llm",
-            });
+            const toolResult = await orchestrator.executeTool(
+              toolName,
+              args,
+              { source: "llm" },
+              hookContext,
+            );
             if (!toolResult.success) {
               throw new Error(toolResult.error || "Tool execution failed");
             }
@@ -1077,6 +1119,7 @@ export function registerAIRoutes(app: Hono, deps: AIRouteDeps) {
                   rawAssistantResponse.trim().length === 0 && executedTools.length > 0
                     ? await fallbackFromToolResults(aiClient, llmMessages, executedTools)
                     : rawAssistantResponse,
+                  hookContext,
                 );
               if (rawAssistantResponse.trim().length === 0 && executedTools.length > 0) {
                 chatLogger.info(
@@ -1086,7 +1129,7 @@ export function registerAIRoutes(app: Hono, deps: AIRouteDeps) {
                 );
               }
 
-              const assistantMessage = await pDB.createMessage({
+              const assistantMessage = await createMessage({
                 conversationId: conversation.id,
                 role: "assistant",
                 content: finalResponse,
@@ -1111,8 +1154,9 @@ export function registerAIRoutes(app: Hono, deps: AIRouteDeps) {
               if (error instanceof ToolTerminalResponseError) {
                 const finalResponse = await orchestrator.afterLLMCall(
                   error.terminalResponse,
+                  hookContext,
                 );
-                const assistantMessage = await pDB.createMessage({
+                const assistantMessage = await createMessage({
                   conversationId: conversation.id,
                   role: "assistant",
                   content: finalResponse,
@@ -1173,8 +1217,9 @@ export function registerAIRoutes(app: Hono, deps: AIRouteDeps) {
         if (error instanceof ToolTerminalResponseError) {
           const finalResponse = await orchestrator.afterLLMCall(
             error.terminalResponse,
+            hookContext,
           );
-          const assistantMessage = await pDB.createMessage({
+          const assistantMessage = await createMessage({
             conversationId: conversation.id,
             role: "assistant",
             content: finalResponse,
@@ -1216,8 +1261,11 @@ export function registerAIRoutes(app: Hono, deps: AIRouteDeps) {
           { essential: true },
         );
       }
-      const finalResponse = await orchestrator.afterLLMCall(rawFinalContent);
-      const assistantMessage = await pDB.createMessage({
+      const finalResponse = await orchestrator.afterLLMCall(
+        rawFinalContent,
+        hookContext,
+      );
+      const assistantMessage = await createMessage({
         conversationId: conversation.id,
         role: "assistant",
         content: finalResponse,
@@ -1258,7 +1306,7 @@ export function registerAIRoutes(app: Hono, deps: AIRouteDeps) {
     try {
       await orchestratorReady;
       await aiReady;
-      const { q, limit } = c.req.query();
+      const { q, limit, profileId } = c.req.query();
 
       if (!q) {
         return c.json(
@@ -1267,10 +1315,13 @@ export function registerAIRoutes(app: Hono, deps: AIRouteDeps) {
         );
       }
 
-      const results = await orchestrator.search({
-        query: q,
-        limit: limit ? parseInt(limit, 10) : undefined,
-      });
+      const results = await orchestrator.search(
+        {
+          query: q,
+          limit: limit ? parseInt(limit, 10) : undefined,
+        },
+        { profileId },
+      );
 
       return c.json({
         success: true,
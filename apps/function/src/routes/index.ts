@@ -19,7 +19,7 @@ export function registerRoutes(
   registerAIRoutes(app, deps);
   registerConfigRoutes(app);
   registerProfileRoutes(app);
-  registerItemRoutes(app);
+  registerItemRoutes(app, deps);
   registerInteractionAndFeedbackRoutes(app);
   registerMiscRoutes(app);
 }
@@ -2,14 +2,18 @@ import { primaryActions as pDB } from "@workspace/db";
 import { ItemSchema } from "@workspace/schema/item";
 import type { Hono } from "hono";
 import { ZodError } from "zod";
+import type { RouteDeps } from "./types";
+
+export function registerItemRoutes(app: Hono, deps: RouteDeps) {
+  const { orchestrator } = deps;
 
-export function registerItemRoutes(app: Hono) {
   app.post("/api/v1/items", async (c) => {
     try {
       const body = await c.req.json();
       const item = await ItemSchema.parseAsync(body);
 
       await pDB.createItem(item);
+      orchestrator.publishEvent("item.ingested", { item });
 
       return c.json({
         success: true,
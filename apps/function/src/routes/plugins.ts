@@ -1,6 +1,39 @@
-import type { Hono } from "hono";
+import {
+  FRONTCLAW_VERSION,
+  PluginLoadError,
+  PluginPackageError,
+  StalePermissionReviewError,
+} from "@workspace/core";
+import type { Context, Hono } from "hono";
 import type { RouteDeps } from "./types";
 
+/**
+ * Whether the request carries the plugin admin token.
+ * Admin routes stay closed until PLUGINS_ADMIN_TOKEN is set.
+ */
+function isPluginAdmin(c: Context): boolean {
+  const token = process.env.PLUGINS_ADMIN_TOKEN;
+  return Boolean(token) && c.req.header("x-admin-token") === token;
+}
+
+/**
+ * Respond to a failed install or uninstall
+ */
+function installErrorResponse(c: Context, error: unknown) {
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof PluginPackageError) {
+    return c.json(
+      { success: false, code: error.code, message },
+      error.code === "NOT_FOUND"
+        ? 404
+        : error.code === "BUNDLED_PLUGIN"
+          ? 409
+          : 400,
+    );
+  }
+  return c.json({ success: false, message }, 500);
+}
+
 export function registerPluginRoutes(app: Hono, deps: RouteDeps) {
   const { orchestrator, orchestratorReady } = deps;
 
@@ -8,12 +41,20 @@ export function registerPluginRoutes(app: Hono, deps: RouteDeps) {
     await orchestratorReady;
     return c.json({
       success: true,
+      frontclawVersion: FRONTCLAW_VERSION,
       plugins: orchestrator.getManifests().map((m) => ({
         id: m.id,
         name: m.name,
         version: m.version,
+        enabled: m.enabled,
         description: m.description,
         priority: m.priority,
+        dependencies: m.dependencies,
+        compatibility: m.compatibility,
+        limits: m.limits,
+        workers: m.workers,
+        health: orchestrator.getPluginHealth(m.id),
+        llmUsage: orchestrator.getPluginLLMUsage(m.id),
         permissions: m.permissions,
         tags: m.tags,
       })),
@@ -74,15 +115,209 @@ export function registerPluginRoutes(app: Hono, deps: RouteDeps) {
         id: manifest.id,
         name: manifest.name,
         version: manifest.version,
+        enabled: manifest.enabled,
         description: manifest.description,
         priority: manifest.priority,
+        dependencies: manifest.dependencies,
+        compatibility: manifest.compatibility,
+        limits: manifest.limits,
+        stateless: manifest.stateless,
+        schedules: manifest.schedules,
+        tables: manifest.tableNames,
+        source: manifest.source,
+        transport: manifest.transport,
+        // Names and whether they're set; values never leave the Core
+        secrets: await orchestrator.getPluginSecrets(manifest.id),
+        workers: manifest.workers,
+        health: orchestrator.getPluginHealth(manifest.id),
+        llmUsage: orchestrator.getPluginLLMUsage(manifest.id),
+        capabilities: orchestrator.getPluginCapabilities(manifest.id),
         permissions: manifest.permissions,
+        declaredPermissions: manifest.declaredPermissions,
         config: manifest.config,
         tags: manifest.tags,
       },
     });
   });
 
+  app.patch("/api/v1/plugins/:pluginId", async (c) => {
+    await orchestratorReady;
+    if (!isPluginAdmin(c)) {
+      return c.json({ success: false, message: "Unauthorized" }, 401);
+    }
+
+    const pluginId = c.req.param("pluginId");
+    if (!orchestrator.getManifest(pluginId)) {
+      return c.json({ success: false, message: "Plugin not found" }, 404);
+    }
+
+    const body = await c.req.json().catch(() => null);
+    const { enabled, config } = body ?? {};
+    if (enabled !== undefined && typeof enabled !== "boolean") {
+      return c.json(
+        { success: false, message: "enabled must be a boolean" },
+        400,
+      );
+    }
+    if (
+      config !== undefined &&
+      (typeof config !== "object" || config === null || Array.isArray(config))
+    ) {
+      return c.json(
+        { success: false, message: "config must be an object" },
+        400,
+      );
+    }
+
+    try {
+      const manifest = await orchestrator.updatePluginSettings(pluginId, {
+        enabled,
+        config,
+      });
+      return c.json({
+        success: true,
+        plugin: {
+          id: manifest.id,
+          enabled: manifest.enabled,
+          config: manifest.config,
+          health: orchestrator.getPluginHealth(pluginId),
+        },
+      });
+    } catch (error) {
+      if (error instanceof PluginLoadError) {
+        return c.json(
+          { success: false, message: error.message, issues: error.issues },
+          400,
+        );
+      }
+      return c.json(
+        { success: false, message: (error as Error).message },
+        500,
+      );
+    }
+  });
+
+  app.get("/api/v1/plugins/:pluginId/jobs", async (c) => {
+    await orchestratorReady;
+    const jobs = orchestrator.getPluginJobs(c.req.param("pluginId"));
+
+    if (!jobs) {
+      return c.json({ success: false, message: "Plugin not found" }, 404);
+    }
+
+    return c.json({ success: true, jobs });
+  });
+
+  app.get("/api/v1/plugins/:pluginId/permissions", async (c) => {
+    await orchestratorReady;
+    const review = await orchestrator.getPermissionReview(
+      c.req.param("pluginId"),
+    );
+
+    if (!review) {
+      return c.json({ success: false, message: "Plugin not found" }, 404);
+    }
+
+    return c.json({ success: true, review });
+  });
+
+  app.post("/api/v1/plugins/:pluginId/permissions/approve", async (c) => {
+    await orchestratorReady;
+    if (!isPluginAdmin(c)) {
+      return c.json({ success: false, message: "Unauthorized" }, 401);
+    }
+
+    const pluginId = c.req.param("pluginId");
+    if (!orchestrator.getManifest(pluginId)) {
+      return c.json({ success: false, message: "Plugin not found" }, 404);
+    }
+
+    // The hash of the review the admin saw, so nothing else gets approved
+    const body = await c.req.json().catch(() => null);
+    if (typeof body?.permissionsHash !== "string") {
+      return c.json(
+        { success: false, message: "permissionsHash is required" },
+        400,
+      );
+    }
+
+    try {
+      await orchestrator.approvePermissions(pluginId, body.permissionsHash);
+    } catch (error) {
+      if (error instanceof StalePermissionReviewError) {
+        return c.json(
+          {
+            success: false,
+            message: error.message,
+            review: await orchestrator.getPermissionReview(pluginId),
+          },
+          409,
+        );
+      }
+      throw error;
+    }
+    return c.json({
+      success: true,
+      review: await orchestrator.getPermissionReview(pluginId),
+      health: orchestrator.getPluginHealth(pluginId),
+    });
+  });
+
+  app.post("/api/v1/plugins/install", async (c) => {
+    await orchestratorReady;
+    if (!isPluginAdmin(c)) {
+      return c.json({ success: false, message: "Unauthorized" }, 401);
+    }
+
+    const body = await c.req.json().catch(() => null);
+    if (typeof body?.id !== "string" || !body.id) {
+      return c.json({ success: false, message: "id is required" }, 400);
+    }
+    if (body.version !== undefined && typeof body.version !== "string") {
+      return c.json(
+        { success: false, message: "version must be a string" },
+        400,
+      );
+    }
+
+    try {
+      const manifest = await orchestrator.installPlugin(body.id, body.version);
+      return c.json({
+        success: true,
+        plugin: {
+          id: manifest.id,
+          name: manifest.name,
+          version: manifest.version,
+          health: orchestrator.getPluginHealth(manifest.id),
+        },
+      });
+    } catch (error) {
+      return installErrorResponse(c, error);
+    }
+  });
+
+  app.delete("/api/v1/plugins/:pluginId", async (c) => {
+    await orchestratorReady;
+    if (!isPluginAdmin(c)) {
+      return c.json({ success: false, message: "Unauthorized" }, 401);
+    }
+
+    const pluginId = c.req.param("pluginId");
+    if (!orchestrator.getManifest(pluginId)) {
+      return c.json({ success: false, message: "Plugin not found" }, 404);
+    }
+
+    try {
+      // Plugin tables are kept unless the admin asks for them to be dropped
+      await orchestrator.uninstallPlugin(pluginId, {
+        dropTables: c.req.query("dropTables") === "true",
+      });
+      return c.json({ success: true });
+    } catch (error) {
+      return installErrorResponse(c, error);
+    }
+  });
+
   app.all("/api/v1/p/:pluginId/*", async (c) => {
     await orchestratorReady;
     const pluginId = c.req.param("pluginId");
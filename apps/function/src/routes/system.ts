@@ -1,3 +1,4 @@
+import { FRONTCLAW_VERSION } from "@workspace/core";
 import type { Hono } from "hono";
 import type { RouteDeps } from "./types";
 
@@ -8,7 +9,7 @@ export function registerSystemRoutes(app: Hono, deps: RouteDeps) {
     return c.json({
       success: true,
       message: "FrontClaw API is running!",
-      version: "1.0.0",
+      version: FRONTCLAW_VERSION,
       environment: "development",
       plugins: orchestrator.getManifests().map((m) => ({
         id: m.id,
@@ -8,12 +8,12 @@ import {
   getConfigs,
   type AIClientConfig,
 } from "@workspace/core";
-import type { Chat, FrontClawSchema } from "@workspace/schema";
+import type { Chat, Embeddings, FrontClawSchema } from "@workspace/schema";
 import { createOllama } from "ollama-ai-provider-v2";
 
 export type AIClientInstance = ReturnType<typeof createAIClient>;
 
-let aiClient = createAIClient({
+const aiClient = createAIClient({
   debug: process.env.NODE_ENV === "development",
 });
 let configuredSystemPrompt = "";
@@ -41,10 +41,15 @@ export const aiReady = (async () => {
 
   const model = createProviderModel(chatConfig);
 
-  aiClient = createAIClient({
-    model,
-    debug: process.env.NODE_ENV === "development",
-  });
+  // Embeddings are optional; without them embed() fails
+  const embeddingsConfig = configs.ai_models?.embeddings;
+  const embeddingModel =
+    embeddingsConfig?.provider && embeddingsConfig.model
+      ? createEmbeddingModel(embeddingsConfig)
+      : undefined;
+
+  // Configure in place: the orchestrator keeps this instance for plugins
+  aiClient.configure({ model, embeddingModel });
 })();
 
 export function getAIClient(): AIClientInstance {
@@ -100,3 +105,43 @@ function createProviderModel(config: Chat): NonNullable<AIClientConfig["model"]>
       throw new Error(`Unsupported chat provider: ${config.provider}`);
   }
 }
+
+function createEmbeddingModel(
+  config: Embeddings,
+): NonNullable<AIClientConfig["embeddingModel"]> {
+  switch (config.provider) {
+    case "openai": {
+      const openai = createOpenAI({
+        apiKey: config.api_key,
+        baseURL: config.base_url,
+        name: "openai",
+      });
+      return openai.embeddingModel(config.model!);
+    }
+    case "google": {
+      const google = createGoogleGenerativeAI({
+        apiKey: config.api_key,
+        baseURL: config.base_url,
+      });
+      return google.embeddingModel(config.model!);
+    }
+    case "ollama": {
+      const ollama = createOllama({
+        name: "ollama",
+        baseURL: config.base_url,
+      });
+      return ollama.embedding(config.model!) as unknown as NonNullable<
+        AIClientConfig["embeddingModel"]
+      >;
+    }
+    case "lmstudio": {
+      const lmstudio = createOpenAICompatible({
+        name: "lmstudio",
+        baseURL: config.base_url!,
+      });
+      return lmstudio.embeddingModel(config.model!);
+    }
+    default:
+      throw new Error(`Unsupported embeddings provider: ${config.provider}`);
+  }
+}
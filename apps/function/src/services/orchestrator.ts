@@ -1,23 +1,86 @@
 import {
+  EncryptedFileSecretStore,
+  EnvSecretStore,
+  FileApprovalStore,
+  FileSettingsStore,
+  getConfigPath,
+  LayeredSecretStore,
   Orchestrator,
   RedisMemoryService,
   SecureMemoryService,
   type OrchestratorConfig,
+  type RegistryConfig,
+  type SecretStore,
 } from "@workspace/core";
-import { primaryActions as pDB } from "@workspace/db";
+import { createPluginDBAdapter, primarySchema } from "@workspace/db";
+import type { FrontClawSchema } from "@workspace/schema";
+import fs from "node:fs";
 import path from "node:path";
 import { createPluginSystemLogger, createScopedLogger } from "../lib/logging";
+import { getAIClient } from "./ai-client";
 
-function parseKey(value: string): Buffer {
+function parseKey(value: string, name: string): Buffer {
   const trimmed = value.trim();
   const isHex = /^[0-9a-fA-F]+$/.test(trimmed);
   const buf = isHex ? Buffer.from(trimmed, "hex") : Buffer.from(trimmed, "base64");
   if (buf.length !== 32) {
-    throw new Error("MEMORY_ENCRYPTION_KEY must be 32 bytes (hex or base64)");
+    throw new Error(`${name} must be 32 bytes (hex or base64)`);
   }
   return buf;
 }
 
+function parseLimit(name: string): number | undefined {
+  const raw = process.env[name];
+  if (!raw) return undefined;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new Error(`${name} must be a positive integer`);
+  }
+  return value;
+}
+
+/**
+ * Plugin settings from the main config, with paths resolved against it.
+ * A broken config fails startup rather than silently dropping the policy.
+ */
+function readPluginSettings(): Pick<
+  NonNullable<OrchestratorConfig["loader"]>,
+  "permissionPolicyPath"
+> & { registry?: RegistryConfig; secretsFile?: string } {
+  const configPath = getConfigPath();
+  if (!fs.existsSync(configPath)) return {};
+
+  const configs = JSON.parse(
+    fs.readFileSync(configPath, "utf-8"),
+  ) as FrontClawSchema;
+  const settings = configs.plugins ?? {};
+  const resolve = (file: string) =>
+    path.resolve(path.dirname(configPath), file);
+
+  return {
+    permissionPolicyPath: settings.permission_policy
+      ? resolve(settings.permission_policy)
+      : undefined,
+    registry: settings.registry
+      ? {
+          dir: resolve(settings.registry),
+          trustedKeys: Object.fromEntries(
+            Object.entries(settings.trusted_keys ?? {}).map(([keyId, file]) => [
+              keyId,
+              fs.readFileSync(resolve(file), "utf-8"),
+            ]),
+          ),
+          requireSignature: settings.require_signature,
+        }
+      : undefined,
+    secretsFile: settings.secrets_file
+      ? resolve(settings.secrets_file)
+      : undefined,
+  };
+}
+
+const pluginSettings = readPluginSettings();
+
 const memoryService = process.env.REDIS_URL
   ? new RedisMemoryService({
       url: process.env.REDIS_URL,
@@ -28,49 +91,96 @@ const memoryService = process.env.REDIS_URL
 const secureMemoryService =
   memoryService && process.env.MEMORY_ENCRYPTION_KEY
     ? new SecureMemoryService(memoryService, {
-        encryptionKey: parseKey(process.env.MEMORY_ENCRYPTION_KEY),
+        encryptionKey: parseKey(
+          process.env.MEMORY_ENCRYPTION_KEY,
+          "MEMORY_ENCRYPTION_KEY",
+        ),
         signingKey: process.env.MEMORY_SIGNING_KEY
-          ? parseKey(process.env.MEMORY_SIGNING_KEY)
+          ? parseKey(process.env.MEMORY_SIGNING_KEY, "MEMORY_SIGNING_KEY")
           : undefined,
       })
     : memoryService;
 
+/**
+ * Plugin secrets from environment variables, then the encrypted secrets file
+ */
+function createSecretStore(): SecretStore {
+  const env = new EnvSecretStore();
+  if (!pluginSettings.secretsFile) return env;
+
+  if (!process.env.PLUGIN_SECRETS_KEY) {
+    throw new Error("PLUGIN_SECRETS_KEY is required to read plugins.secrets_file");
+  }
+  return new LayeredSecretStore([
+    env,
+    new EncryptedFileSecretStore(pluginSettings.secretsFile, {
+      encryptionKey: parseKey(
+        process.env.PLUGIN_SECRETS_KEY,
+        "PLUGIN_SECRETS_KEY",
+      ),
+    }),
+  ]);
+}
+
 const appLogger = createScopedLogger("orchestrator");
 const pluginLogger = createPluginSystemLogger();
 
 const orchestratorConfig: OrchestratorConfig = {
   loader: {
     pluginsDir: path.resolve(import.meta.dirname, "../../../../plugins"),
+    // Defaults; PATCH /api/v1/plugins/:pluginId overrides these at runtime
     pluginConfigs: {
       // Override plugin configs here if needed
     },
     disabledPlugins: [],
+    watch:
+      process.env.PLUGINS_WATCH === "true" ||
+      process.env.NODE_ENV === "development",
+    versionCheck:
+      process.env.PLUGINS_VERSION_CHECK === "warn" ? "warn" : "reject",
+    resourceLimits: {
+      maxHeapMb: parseLimit("PLUGINS_MAX_HEAP_MB"),
+      maxConcurrentHooks: parseLimit("PLUGINS_MAX_CONCURRENT_HOOKS"),
+      hookBudgetMs: parseLimit("PLUGINS_HOOK_BUDGET_MS"),
+    },
+    pluginResourceLimits: {
+      // Override per-plugin resource limits here if needed
+    },
+    maxWorkersPerPlugin: parseLimit("PLUGINS_MAX_WORKERS"),
+    permissionPolicyPath: pluginSettings.permissionPolicyPath,
+    tablePrefix: primarySchema.TABLE_PREFIX,
+    pluginWorkers: {
+      // Override worker counts of stateless plugins here if needed
+    },
+    pluginCommands: {
+      // Approve the commands stdio plugins declare here, e.g.
+      // "my-plugin": ["python3", "main.py"]
+    },
+    // Installed plugins allowed to run in a worker instead of a process
+    trustedPlugins: [],
+  },
+  processIsolation: {
+    disabled: process.env.PLUGINS_PROCESS_ISOLATION === "off",
+    uid: parseLimit("PLUGINS_PROCESS_UID"),
+    gid: parseLimit("PLUGINS_PROCESS_GID"),
   },
   dependencies: {
-    db: {
-      async query(sql, params) {
-        // TODO: Implement raw SQL query through Drizzle
-        appLogger.debug("DB query", { sql, params });
-        return { rows: [], rowCount: 0 };
-      },
-      async getItems(table, options) {
-        if (table === "fc_items" || table === "items") {
-          const items = await pDB.getItems();
-          return items as unknown[];
-        }
-        return [];
-      },
-      async getItem(table, id) {
-        if (table === "fc_items" || table === "items") {
-          const item = await pDB.getItem(id);
-          return item ? (Array.isArray(item) ? item[0] : item) : null;
-        }
-        return null;
-      },
-    },
+    db: createPluginDBAdapter({
+      statementTimeoutMs: parseLimit("PLUGINS_DB_STATEMENT_TIMEOUT_MS"),
+      migrationTimeoutMs: parseLimit("PLUGINS_DB_MIGRATION_TIMEOUT_MS"),
+    }),
     logger: pluginLogger,
   },
   memoryService: secureMemoryService,
+  approvalStore: new FileApprovalStore(
+    path.join(path.dirname(getConfigPath()), "plugin-approvals.json"),
+  ),
+  settingsStore: new FileSettingsStore(
+    path.join(path.dirname(getConfigPath()), "plugin-settings.json"),
+  ),
+  registry: pluginSettings.registry,
+  secretStore: createSecretStore(),
+  aiClient: getAIClient(),
   hookTimeout: 5000,
 };
 
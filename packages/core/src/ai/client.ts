@@ -4,9 +4,13 @@
  */
 
 import {
+  embedMany,
   generateObject,
   generateText,
+  jsonSchema,
   streamText,
+  type EmbeddingModel,
+  type FlexibleSchema,
   type LanguageModel,
 } from "ai";
 import { z } from "zod";
@@ -15,6 +19,9 @@ import { convertTools } from "./converters/tools.js";
 import type {
   ChatCompletionOptions,
   ChatCompletionResult,
+  EmbeddingOptions,
+  EmbeddingResult,
+  JSONSchemaOutputOptions,
   StreamChunk,
   StructuredOutputOptions,
   ToolCall,
@@ -27,10 +34,15 @@ export interface AIClientConfig {
   /** Language model instance (from AI SDK provider) */
   model?: LanguageModel;
   /** Embedding model instance (from AI SDK provider) */
+  embeddingModel?: EmbeddingModel;
+  /** Most texts sent to the embedding model in one request */
+  embeddingBatchSize?: number;
   /** Enable debug logging */
   debug?: boolean;
 }
 
+const DEFAULT_EMBEDDING_BATCH_SIZE = 100;
+
 /**
  * AIClient
  * Provides a unified interface for AI operations
@@ -54,6 +66,18 @@ export class AIClient {
     return this.config.model;
   }
 
+  /**
+   * Get the configured embedding model (required for embeddings)
+   */
+  private getEmbeddingModel(): EmbeddingModel {
+    if (!this.config.embeddingModel) {
+      throw new Error(
+        "AIClient requires an embedding model instance. Provide config.embeddingModel from an AI SDK provider.",
+      );
+    }
+    return this.config.embeddingModel;
+  }
+
   private mapUsage(usage: {
     inputTokens: number | undefined;
     outputTokens: number | undefined;
@@ -203,6 +227,27 @@ export class AIClient {
   async generateStructured<T extends z.ZodType>(
     options: StructuredOutputOptions<T>,
   ): Promise<{ data: z.infer<T>; usage: ChatCompletionResult["usage"] }> {
+    const result = await this.generateObject(options, options.schema);
+    return { data: result.data as z.infer<T>, usage: result.usage };
+  }
+
+  /**
+   * Generate structured output with a JSON Schema, for callers that can't
+   * hand over a Zod schema (such as plugins)
+   */
+  async generateJSON(
+    options: JSONSchemaOutputOptions,
+  ): Promise<{ data: unknown; usage: ChatCompletionResult["usage"] }> {
+    return this.generateObject(
+      options,
+      jsonSchema(options.schema as Parameters<typeof jsonSchema>[0]),
+    );
+  }
+
+  private async generateObject(
+    options: Omit<StructuredOutputOptions<z.ZodType>, "schema">,
+    schema: FlexibleSchema<unknown>,
+  ): Promise<{ data: unknown; usage: ChatCompletionResult["usage"] }> {
     const model = this.getModel();
 
     // Prepare messages
@@ -223,17 +268,66 @@ export class AIClient {
     const result = await generateObject({
       model,
       messages: convertMessages(messages),
-      schema: options.schema,
+      schema,
       schemaName: options.schemaName,
       schemaDescription: options.schemaDescription,
+      temperature: options.temperature,
+      maxOutputTokens: options.maxTokens,
     });
 
     return {
-      data: result.object as z.infer<T>,
+      data: result.object,
       usage: this.mapUsage(result.usage),
     };
   }
 
+  /**
+   * Embed one or more texts, in batches of embeddingBatchSize.
+   * Embeddings come back in the order of the texts.
+   */
+  async embed(options: EmbeddingOptions): Promise<EmbeddingResult> {
+    const model = this.getEmbeddingModel();
+    const texts = Array.isArray(options.text) ? options.text : [options.text];
+    const batchSize =
+      this.config.embeddingBatchSize ?? DEFAULT_EMBEDDING_BATCH_SIZE;
+    if (!Number.isInteger(batchSize) || batchSize < 1) {
+      throw new Error("embeddingBatchSize must be a positive integer");
+    }
+
+    // Providers name the option differently; each ignores the others'
+    const providerOptions = options.dimensions
+      ? {
+          openai: { dimensions: options.dimensions },
+          google: { outputDimensionality: options.dimensions },
+        }
+      : undefined;
+
+    if (this.config.debug) {
+      console.log("[AIClient] Embedding texts:", {
+        count: texts.length,
+        batches: Math.ceil(texts.length / batchSize),
+      });
+    }
+
+    const embeddings: number[][] = [];
+    let tokens = 0;
+    // One batch at a time, so large inputs don't trip provider rate limits
+    for (let start = 0; start < texts.length; start += batchSize) {
+      const result = await embedMany({
+        model,
+        values: texts.slice(start, start + batchSize),
+        providerOptions,
+      });
+      embeddings.push(...result.embeddings);
+      tokens += result.usage.tokens;
+    }
+
+    return {
+      embeddings,
+      usage: { promptTokens: tokens, totalTokens: tokens },
+    };
+  }
+
   /**
    * Simple text generation helper
    */
@@ -140,4 +140,15 @@ export interface StructuredOutputOptions<T extends z.ZodType> {
   schemaName?: string;
   /** Schema description */
   schemaDescription?: string;
+  /** Override temperature */
+  temperature?: number;
+  /** Override max tokens */
+  maxTokens?: number;
+}
+
+/** Structured output options, with the schema given as JSON Schema */
+export interface JSONSchemaOutputOptions
+  extends Omit<StructuredOutputOptions<z.ZodType>, "schema"> {
+  /** JSON Schema for output */
+  schema: Record<string, unknown>;
 }
@@ -6,15 +6,35 @@
 export {
   PluginWorkerBridge,
   type BridgeConfig,
+  type PluginChannel,
+  type PluginChannelEvents,
   type SysCallHandler,
 } from "./worker-bridge.js";
+export { PluginProcessBridge } from "./process-bridge.js";
+export { PluginWorkerPool } from "./worker-pool.js";
 export { PermissionGuard, PermissionDeniedError } from "./permission-guard.js";
+export {
+  PluginSupervisor,
+  type PluginHealth,
+  type PluginHealthStatus,
+  type SupervisorConfig,
+} from "./plugin-supervisor.js";
 export {
   createSysCallHandler,
+  PROVIDED_SYSCALLS,
 } from "./syscall-handler.js";
 export type {
+  BridgeObserver,
+  PluginBridge,
+  PluginCapabilities,
+  ProcessIsolation,
+  ResourceViolation,
   SystemLogger,
   DBAdapter,
+  DBQueryOptions,
+  DBReadScope,
+  DBWriteOptions,
+  HookContext,
   SysCallDependencies,
   SysCallOrchestrator,
 } from "./types.js";
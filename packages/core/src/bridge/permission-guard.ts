@@ -3,13 +3,17 @@
  * Validates and enforces plugin permissions for system calls
  */
 
-import type {
-  LoadedPluginManifest,
-  Permissions,
-  DBPermission,
-  NetworkPermission,
+import {
+  CORE_EVENT_TOPICS,
+  type LoadedPluginManifest,
+  type Permissions,
+  type DBPermission,
+  type NetworkPermission,
+  type Secret,
 } from "@workspace/plugin-sdk";
 import { parseRouteSpec, routeMatches } from "./permission-route-utils.js";
+import { bindRowFilter } from "./sql-analyzer.js";
+import type { DBReadScope, HookContext } from "./types.js";
 
 /** Permission violation error */
 export class PermissionDeniedError extends Error {
@@ -25,17 +29,68 @@ export class PermissionDeniedError extends Error {
   }
 }
 
+/**
+ * Whether a hostname matches a domain entry ("*.example.com" also matches
+ * example.com itself)
+ */
+function matchesDomain(domain: string, pattern: string): boolean {
+  if (pattern.startsWith("*.")) {
+    // Wildcard subdomain matching
+    const base = pattern.slice(2);
+    return domain === base || domain.endsWith(`.${base}`);
+  }
+  return domain === pattern;
+}
+
+/**
+ * Whether an event topic matches one of a list of patterns: exact topics,
+ * "prefix.*" for everything under a prefix, or "*"
+ */
+export function matchesTopic(topic: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => {
+    if (pattern === "*") return true;
+    if (pattern.endsWith(".*")) return topic.startsWith(pattern.slice(0, -1));
+    return topic === pattern;
+  });
+}
+
 /**
  * PermissionGuard
- * Validates system calls against plugin permissions
+ * Validates system calls against plugin permissions, which the loader has
+ * already narrowed by the operator's permission policy
  */
 export class PermissionGuard {
-  constructor(private readonly manifest: LoadedPluginManifest) {}
+  constructor(
+    private readonly manifest: LoadedPluginManifest,
+    /** Context of the hook call the checked syscall was made for */
+    private readonly context: HookContext = {},
+    /**
+     * Database name of a table named in the permissions, as the DB adapter
+     * resolves it; tables are checked by their database name
+     */
+    private readonly resolveTable: (table: string) => string = (table) =>
+      table,
+  ) {}
+
+  /**
+   * Values of a per-table permission for a table, under any of its names
+   */
+  private forTable<T>(
+    byTable: Record<string, T> | undefined,
+    table: string,
+  ): T[] {
+    return Object.entries(byTable ?? {})
+      .filter(([name]) => this.resolveTable(name) === table)
+      .map(([, value]) => value);
+  }
 
   /**
-   * Check if plugin has database access
+   * Check if plugin has database access to a table, by its database name
    */
   checkDBAccess(table: string, write = false): void {
+    // Plugins may always read and write the tables they own
+    if (Object.values(this.manifest.tableNames).includes(table)) return;
+
     const dbPerm = this.manifest.permissions.db;
 
     if (!dbPerm) {
@@ -47,7 +102,10 @@ export class PermissionGuard {
     }
 
     // Check if table is in allowed list
-    if (!dbPerm.tables.includes(table) && !dbPerm.tables.includes("*")) {
+    const allowed = dbPerm.tables.some(
+      (name) => name === "*" || this.resolveTable(name) === table,
+    );
+    if (!allowed) {
       throw new PermissionDeniedError(
         this.manifest.id,
         "db.tables",
@@ -65,6 +123,48 @@ export class PermissionGuard {
     }
   }
 
+  /**
+   * Get the columns and rows of a table the plugin is limited to, or
+   * undefined if it may see the whole table. Row filters get the profile
+   * of the hook call filled in.
+   */
+  getDBReadScope(table: string): DBReadScope | undefined {
+    const db = this.manifest.permissions.db;
+    const columnLists = this.forTable(db?.columns, table);
+    const filters = this.forTable(db?.row_filters, table).map((filter) =>
+      bindRowFilter(filter, this.context.profileId),
+    );
+    if (columnLists.length === 0 && filters.length === 0) return undefined;
+
+    return {
+      columns: columnLists.length
+        ? columnLists.reduce((kept, columns) =>
+            kept.filter((column) => columns.includes(column)),
+          )
+        : undefined,
+      filter:
+        filters.length > 1
+          ? filters.map((filter) => `(${filter})`).join(" AND ")
+          : filters[0],
+    };
+  }
+
+  /**
+   * Check that the plugin may see columns of a table, e.g. to filter on them
+   */
+  checkDBColumns(table: string, columns: string[]): void {
+    const allowed = this.getDBReadScope(table)?.columns;
+    const hidden =
+      allowed && columns.find((column) => !allowed.includes(column));
+    if (hidden) {
+      throw new PermissionDeniedError(
+        this.manifest.id,
+        "db.columns",
+        `use column '${hidden}' of table '${table}'`,
+      );
+    }
+  }
+
   /**
    * Check if plugin can fetch a URL
    */
@@ -79,11 +179,6 @@ export class PermissionGuard {
       );
     }
 
-    // Allow all if specified
-    if (netPerm.allow_all) {
-      return;
-    }
-
     // Parse the URL to get the domain
     let domain: string;
     try {
@@ -97,15 +192,27 @@ export class PermissionGuard {
       );
     }
 
+    // Denied domains win over everything, including allow_all
+    const isDenied = netPerm.denied_domains?.some((denied) =>
+      matchesDomain(domain, denied),
+    );
+    if (isDenied) {
+      throw new PermissionDeniedError(
+        this.manifest.id,
+        "network.denied_domains",
+        `fetch domain '${domain}'`,
+      );
+    }
+
+    // Allow all if specified
+    if (netPerm.allow_all) {
+      return;
+    }
+
     // Check if domain is allowed
-    const isAllowed = netPerm.allowed_domains.some((allowed) => {
-      if (allowed.startsWith("*.")) {
-        // Wildcard subdomain matching
-        const base = allowed.slice(2);
-        return domain === base || domain.endsWith(`.${base}`);
-      }
-      return domain === allowed;
-    });
+    const isAllowed = netPerm.allowed_domains.some((allowed) =>
+      matchesDomain(domain, allowed),
+    );
 
     if (!isAllowed) {
       throw new PermissionDeniedError(
@@ -168,6 +275,44 @@ export class PermissionGuard {
     }
   }
 
+  /**
+   * Check if plugin can call the model, returning the most tokens the call
+   * may generate
+   */
+  checkLLMGenerate(maxTokens?: number): number | undefined {
+    const llm = this.manifest.permissions.llm;
+    if (!llm?.can_generate) {
+      throw new PermissionDeniedError(
+        this.manifest.id,
+        "llm.can_generate",
+        "call the model",
+      );
+    }
+
+    const limit = llm.max_tokens_per_request;
+    if (limit !== undefined && maxTokens !== undefined && maxTokens > limit) {
+      throw new PermissionDeniedError(
+        this.manifest.id,
+        "llm.max_tokens_per_request",
+        `generate ${maxTokens} tokens (limit ${limit})`,
+      );
+    }
+    return maxTokens ?? limit;
+  }
+
+  /**
+   * Check if plugin can compute embeddings
+   */
+  checkLLMEmbed(): void {
+    if (!this.manifest.permissions.llm?.can_embed) {
+      throw new PermissionDeniedError(
+        this.manifest.id,
+        "llm.can_embed",
+        "compute embeddings",
+      );
+    }
+  }
+
   /**
    * Check if plugin can intercept socket events
    */
@@ -253,6 +398,48 @@ export class PermissionGuard {
     }
   }
 
+  /**
+   * Check if plugin can publish an event; Core topics are never allowed
+   */
+  checkEventPublish(topic: string): void {
+    const publish = this.manifest.permissions.events?.publish ?? [];
+    if (
+      (CORE_EVENT_TOPICS as readonly string[]).includes(topic) ||
+      !matchesTopic(topic, publish)
+    ) {
+      throw new PermissionDeniedError(
+        this.manifest.id,
+        "events.publish",
+        `publish event '${topic}'`,
+      );
+    }
+  }
+
+  /**
+   * Whether the plugin may receive events on a topic
+   */
+  canSubscribe(topic: string): boolean {
+    return matchesTopic(
+      topic,
+      this.manifest.permissions.events?.subscribe ?? [],
+    );
+  }
+
+  /**
+   * Check the plugin declared a secret, returning the declaration
+   */
+  checkSecretAccess(name: string): Secret {
+    const secret = this.manifest.secrets.find((entry) => entry.name === name);
+    if (!secret) {
+      throw new PermissionDeniedError(
+        this.manifest.id,
+        "secrets.get",
+        `read undeclared secret '${name}'`,
+      );
+    }
+    return secret;
+  }
+
   /**
    * Check if plugin can read memory key
    */
@@ -0,0 +1,161 @@
+import {
+  afterAll,
+  afterEach,
+  describe,
+  expect,
+  mock,
+  spyOn,
+  test,
+} from "bun:test";
+import { PluginSupervisor } from "./plugin-supervisor.js";
+import type { PluginWorkerBridge } from "./worker-bridge.js";
+
+/** A worker whose restarts succeed unless told otherwise */
+function fakeWorker(pluginId: string, restart = async () => {}) {
+  return {
+    manifest: { id: pluginId },
+    restart,
+  } as unknown as PluginWorkerBridge;
+}
+
+const crash = (message = "worker exited") =>
+  Object.assign(new Error(message), { code: "WORKER_CRASHED" });
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const supervisors: PluginSupervisor[] = [];
+
+function createSupervisor(maxRestarts = 5) {
+  const supervisor = new PluginSupervisor({
+    restartBaseDelayMs: 1,
+    restartMaxDelayMs: 60_000,
+    maxRestarts,
+    failureThreshold: 2,
+  });
+  supervisors.push(supervisor);
+  return supervisor;
+}
+
+spyOn(console, "warn").mockImplementation(() => {});
+spyOn(console, "error").mockImplementation(() => {});
+spyOn(console, "log").mockImplementation(() => {});
+
+afterEach(() => {
+  for (const supervisor of supervisors.splice(0)) supervisor.stop();
+});
+
+afterAll(() => mock.restore());
+
+describe("PluginSupervisor", () => {
+  test("restarts a crashed worker", async () => {
+    const supervisor = createSupervisor();
+    const worker = fakeWorker("solo");
+    supervisor.reset("solo", [worker]);
+
+    supervisor.onCrash(worker, crash());
+    expect(supervisor.getHealth("solo").status).toBe("restarting");
+    expect(supervisor.tryAcquire("solo")).toBe(false);
+
+    await wait(20);
+    expect(supervisor.getHealth("solo")).toMatchObject({
+      status: "healthy",
+      restarts: 1,
+      workersDown: 0,
+    });
+    expect(supervisor.tryAcquire("solo")).toBe(true);
+  });
+
+  test("keeps a pool available while any worker runs", () => {
+    const supervisor = createSupervisor();
+    const workers = [fakeWorker("pool"), fakeWorker("pool")];
+    supervisor.reset("pool", workers);
+
+    supervisor.onCrash(workers[0]!, crash());
+    supervisor.onHookFailure("pool", "onPrompt", crash());
+    supervisor.onHookFailure("pool", "onPrompt", crash());
+
+    expect(supervisor.getHealth("pool")).toMatchObject({
+      status: "healthy",
+      workersDown: 1,
+    });
+    expect(supervisor.tryAcquire("pool")).toBe(true);
+
+    supervisor.onCrash(workers[1]!, crash());
+    expect(supervisor.getHealth("pool").status).toBe("restarting");
+    expect(supervisor.tryAcquire("pool")).toBe(false);
+  });
+
+  test("counts crashes toward maxRestarts per worker", () => {
+    const supervisor = createSupervisor(2);
+    const workers = [
+      fakeWorker("pool"),
+      fakeWorker("pool"),
+      fakeWorker("pool"),
+    ];
+    supervisor.reset("pool", workers);
+
+    // Three crashes in all, but no worker crashed more than twice
+    supervisor.onCrash(workers[0]!, crash());
+    supervisor.onCrash(workers[0]!, crash());
+    supervisor.onCrash(workers[1]!, crash());
+    expect(supervisor.getHealth("pool")).toMatchObject({
+      status: "healthy",
+      consecutiveCrashes: 2,
+    });
+
+    supervisor.onCrash(workers[0]!, crash());
+    supervisor.onCrash(workers[1]!, crash());
+    supervisor.onCrash(workers[1]!, crash());
+    supervisor.onCrash(workers[2]!, crash());
+    supervisor.onCrash(workers[2]!, crash());
+    supervisor.onCrash(workers[2]!, crash());
+    expect(supervisor.getHealth("pool")).toMatchObject({
+      status: "failed",
+      workersDown: 3,
+    });
+  });
+
+  test("retries a restart that fails", async () => {
+    let attempts = 0;
+    const supervisor = createSupervisor();
+    const worker = fakeWorker("flaky", async () => {
+      attempts += 1;
+      if (attempts === 1) throw new Error("handshake timed out");
+    });
+    supervisor.reset("flaky", [worker]);
+
+    supervisor.onCrash(worker, crash());
+    await wait(30);
+
+    expect(attempts).toBe(2);
+    expect(supervisor.getHealth("flaky").status).toBe("healthy");
+  });
+
+  test("ignores crashes of workers from a replaced version", () => {
+    const supervisor = createSupervisor();
+    const old = fakeWorker("upgraded");
+    supervisor.reset("upgraded", [fakeWorker("upgraded")]);
+
+    supervisor.onCrash(old, crash());
+    expect(supervisor.getHealth("upgraded").status).toBe("healthy");
+  });
+
+  test("lets one trial call through a half-open circuit", async () => {
+    const supervisor = new PluginSupervisor({
+      failureThreshold: 1,
+      circuitCooldownMs: 10,
+    });
+    supervisors.push(supervisor);
+    const error = Object.assign(new Error("boom"), { code: "HOOK_ERROR" });
+
+    supervisor.onHookFailure("breaker", "onPrompt", error);
+    expect(supervisor.tryAcquire("breaker")).toBe(false);
+
+    await wait(15);
+    expect(supervisor.tryAcquire("breaker")).toBe(true);
+    expect(supervisor.tryAcquire("breaker")).toBe(false);
+
+    supervisor.onHookSuccess("breaker");
+    expect(supervisor.getHealth("breaker").status).toBe("healthy");
+  });
+});
@@ -0,0 +1,389 @@
+/**
+ * Plugin Supervisor
+ * Restarts crashed plugin workers with backoff and trips a circuit breaker
+ * on plugins whose hooks keep failing
+ */
+
+import type { BridgeObserver, ResourceViolation } from "./types.js";
+import type { PluginWorkerBridge } from "./worker-bridge.js";
+
+/** Supervisor configuration */
+export interface SupervisorConfig {
+  /** Delay before the first restart after a crash (ms) */
+  restartBaseDelayMs: number;
+  /** Upper bound for the restart delay (ms) */
+  restartMaxDelayMs: number;
+  /** Consecutive crashes before the plugin is given up on */
+  maxRestarts: number;
+  /** Consecutive hook failures that open the circuit */
+  failureThreshold: number;
+  /** How long an open circuit skips the plugin before a trial call (ms) */
+  circuitCooldownMs: number;
+}
+
+const DEFAULT_CONFIG: SupervisorConfig = {
+  restartBaseDelayMs: 1000,
+  restartMaxDelayMs: 60_000,
+  maxRestarts: 5,
+  failureThreshold: 5,
+  circuitCooldownMs: 30_000,
+};
+
+/**
+ * Error codes that indicate an unhealthy plugin.
+ * Plugins throwing their own codes via ctx.error() (e.g. SECURITY_VIOLATION)
+ * are working as intended and don't count.
+ */
+const FAILURE_CODES = new Set([
+  "HOOK_ERROR",
+  "HOOK_TIMEOUT",
+  "NOT_LOADED",
+  "WORKER_CRASHED",
+  "WORKER_UNAVAILABLE",
+]);
+
+/** Plugin health status */
+export type PluginHealthStatus =
+  | "healthy"
+  | "restarting"
+  | "circuit-open"
+  | "half-open"
+  | "failed"
+  | "quarantined"
+  | "incompatible"
+  | "disabled";
+
+/**
+ * Health snapshot for a single plugin. A pooled plugin is only
+ * "restarting" or "failed" once none of its workers is running.
+ */
+export interface PluginHealth {
+  pluginId: string;
+  status: PluginHealthStatus;
+  /** Total restarts since the plugin was loaded, of any of its workers */
+  restarts: number;
+  /** Crashes since the worker last ran stably (the most of any worker) */
+  consecutiveCrashes: number;
+  /** Workers that crashed and aren't running again yet */
+  workersDown: number;
+  /** Hook failures since the last successful hook */
+  consecutiveFailures: number;
+  /** Total resource limit violations since the plugin was loaded */
+  resourceViolations: number;
+  lastViolation?: ResourceViolation;
+  lastError?: string;
+  lastCrashAt?: number;
+  lastRestartAt?: number;
+  /**
+   * When an open circuit allows a trial call again, or, while half-open,
+   * when a trial call that never reported back stops holding the circuit
+   */
+  circuitOpenUntil?: number;
+}
+
+/** Crash and restart state of a single worker */
+interface WorkerState {
+  status: "restarting" | "failed" | "running";
+  /** Crashes since the worker last ran stably */
+  consecutiveCrashes: number;
+  lastRestartAt?: number;
+  restartTimer?: ReturnType<typeof setTimeout>;
+}
+
+function initialHealth(pluginId: string): PluginHealth {
+  return {
+    pluginId,
+    status: "healthy",
+    restarts: 0,
+    consecutiveCrashes: 0,
+    workersDown: 0,
+    consecutiveFailures: 0,
+    resourceViolations: 0,
+  };
+}
+
+/**
+ * PluginSupervisor
+ * Observes worker bridges, restarting each crashed worker on its own
+ * backoff, and keeps per-plugin circuit breaker and health state
+ */
+export class PluginSupervisor implements BridgeObserver {
+  private readonly config: SupervisorConfig;
+  /** Per-plugin state; its status only tracks the circuit breaker */
+  private health = new Map<string, PluginHealth>();
+  /** Workers that have crashed; a pooled plugin may have several */
+  private workers = new Map<PluginWorkerBridge, WorkerState>();
+  /** Workers of the version of each plugin that is running now */
+  private current = new Map<string, ReadonlySet<PluginWorkerBridge>>();
+
+  constructor(config: Partial<SupervisorConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  private getState(pluginId: string): PluginHealth {
+    let state = this.health.get(pluginId);
+    if (!state) {
+      state = initialHealth(pluginId);
+      this.health.set(pluginId, state);
+    }
+    return state;
+  }
+
+  /**
+   * Crash state of each worker of the plugin's running version that has
+   * crashed since it was started
+   */
+  private crashedWorkers(pluginId: string): WorkerState[] {
+    const current = this.current.get(pluginId);
+    return Array.from(this.workers)
+      .filter(([bridge]) =>
+        current ? current.has(bridge) : bridge.manifest.id === pluginId,
+      )
+      .map(([, worker]) => worker);
+  }
+
+  /**
+   * "restarting" or "failed" once none of the plugin's workers is running
+   */
+  private crashStatus(pluginId: string): "restarting" | "failed" | undefined {
+    const crashed = this.crashedWorkers(pluginId).filter(
+      (worker) => worker.status !== "running",
+    );
+    const total = this.current.get(pluginId)?.size ?? crashed.length;
+    if (crashed.length === 0 || crashed.length < total) return undefined;
+
+    return crashed.some((worker) => worker.status === "restarting")
+      ? "restarting"
+      : "failed";
+  }
+
+  onHookSuccess(pluginId: string): void {
+    const state = this.health.get(pluginId);
+    if (!state) return;
+
+    state.consecutiveFailures = 0;
+    if (state.status === "half-open") {
+      state.status = "healthy";
+      state.circuitOpenUntil = undefined;
+    }
+  }
+
+  onHookFailure(pluginId: string, method: string, error: Error): void {
+    const code = (error as Error & { code?: string }).code ?? "HOOK_ERROR";
+    if (!FAILURE_CODES.has(code)) {
+      // The plugin answered, which is all a trial call has to show
+      if (this.health.get(pluginId)?.status === "half-open") {
+        this.onHookSuccess(pluginId);
+      }
+      return;
+    }
+
+    const state = this.getState(pluginId);
+    state.consecutiveFailures += 1;
+    state.lastError = `${method}: ${error.message}`;
+
+    // Crashes are handled by restarting, not by the circuit breaker
+    if (code === "WORKER_CRASHED" || this.crashStatus(pluginId)) return;
+
+    if (
+      state.status === "half-open" ||
+      state.consecutiveFailures >= this.config.failureThreshold
+    ) {
+      state.status = "circuit-open";
+      state.circuitOpenUntil = Date.now() + this.config.circuitCooldownMs;
+      console.warn(
+        `Circuit opened for plugin ${pluginId} after ${state.consecutiveFailures} failures`,
+      );
+    }
+  }
+
+  onResourceViolation(violation: ResourceViolation): void {
+    const state = this.getState(violation.pluginId);
+    state.resourceViolations += 1;
+    state.lastViolation = violation;
+    console.warn(
+      `Plugin ${violation.pluginId} exceeded ${violation.limit} ` +
+        `(used ${violation.observed}, allowed ${violation.allowed})`,
+    );
+  }
+
+  /**
+   * Whether a worker belongs to the running version of its plugin, rather
+   * than to one that was replaced or unloaded and is being drained
+   */
+  private isCurrent(bridge: PluginWorkerBridge): boolean {
+    const workers = this.current.get(bridge.manifest.id);
+    return !workers || workers.has(bridge);
+  }
+
+  onCrash(bridge: PluginWorkerBridge, error: Error): void {
+    if (!this.isCurrent(bridge)) return;
+
+    const pluginId = bridge.manifest.id;
+    const state = this.getState(pluginId);
+    let worker = this.workers.get(bridge);
+    if (!worker) {
+      worker = { status: "running", consecutiveCrashes: 0 };
+      this.workers.set(bridge, worker);
+    }
+    const now = Date.now();
+
+    // A worker that stayed up longer than the max backoff counts as stable
+    if (
+      worker.lastRestartAt &&
+      now - worker.lastRestartAt > this.config.restartMaxDelayMs
+    ) {
+      worker.consecutiveCrashes = 0;
+    }
+
+    worker.consecutiveCrashes += 1;
+    state.lastCrashAt = now;
+    state.lastError = error.message;
+
+    if (worker.consecutiveCrashes > this.config.maxRestarts) {
+      worker.status = "failed";
+      console.error(
+        `Plugin ${pluginId} crashed ${worker.consecutiveCrashes} times in a row, giving up`,
+      );
+      return;
+    }
+
+    const delay = Math.min(
+      this.config.restartBaseDelayMs * 2 ** (worker.consecutiveCrashes - 1),
+      this.config.restartMaxDelayMs,
+    );
+    worker.status = "restarting";
+    console.warn(`Plugin ${pluginId} crashed, restarting in ${delay}ms`, error);
+
+    const crashed = worker;
+    clearTimeout(crashed.restartTimer);
+    crashed.restartTimer = setTimeout(() => {
+      crashed.restartTimer = undefined;
+      void this.restart(bridge, crashed);
+    }, delay);
+  }
+
+  private async restart(
+    bridge: PluginWorkerBridge,
+    worker: WorkerState,
+  ): Promise<void> {
+    // The plugin was reloaded or unloaded while we waited
+    if (this.workers.get(bridge) !== worker) return;
+    if (!this.isCurrent(bridge)) return;
+
+    try {
+      await bridge.restart();
+      if (this.workers.get(bridge) !== worker) return;
+
+      const pluginId = bridge.manifest.id;
+      const state = this.getState(pluginId);
+      // A plugin coming back from having no worker up starts with a
+      // closed circuit; one worker of a pool coming back doesn't close it
+      if (this.crashStatus(pluginId)) {
+        state.consecutiveFailures = 0;
+        state.circuitOpenUntil = undefined;
+        state.status = "healthy";
+      }
+
+      worker.status = "running";
+      worker.lastRestartAt = Date.now();
+      state.restarts += 1;
+      state.lastRestartAt = worker.lastRestartAt;
+      console.log(`Restarted plugin: ${pluginId}`);
+    } catch (error) {
+      if (this.workers.get(bridge) !== worker) return;
+      this.onCrash(bridge, error as Error);
+    }
+  }
+
+  /**
+   * Whether the plugin could be called right now, without claiming the
+   * trial call of an open circuit
+   */
+  isAvailable(pluginId: string): boolean {
+    if (this.crashStatus(pluginId)) return false;
+    const state = this.health.get(pluginId);
+    if (!state) return true;
+
+    switch (state.status) {
+      case "healthy":
+        return true;
+      case "circuit-open":
+      case "half-open":
+        return Date.now() >= (state.circuitOpenUntil ?? 0);
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Claim a call to the plugin, if it may be called right now.
+   * Once an open circuit's cooldown has passed it goes half-open and lets
+   * a single trial call through; its outcome closes or reopens the circuit.
+   * A pooled plugin may be called while any of its workers is running.
+   */
+  tryAcquire(pluginId: string): boolean {
+    if (this.crashStatus(pluginId)) return false;
+    const state = this.health.get(pluginId);
+    if (!state) return true;
+
+    switch (state.status) {
+      case "healthy":
+        return true;
+      case "circuit-open":
+      case "half-open": {
+        const now = Date.now();
+        if (now < (state.circuitOpenUntil ?? 0)) return false;
+        state.status = "half-open";
+        state.circuitOpenUntil = now + this.config.circuitCooldownMs;
+        return true;
+      }
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Get the health of a plugin
+   */
+  getHealth(pluginId: string): PluginHealth {
+    const state = this.health.get(pluginId) ?? initialHealth(pluginId);
+    const crashed = this.crashedWorkers(pluginId);
+    return {
+      ...state,
+      status: this.crashStatus(pluginId) ?? state.status,
+      consecutiveCrashes: Math.max(
+        0,
+        ...crashed.map((worker) => worker.consecutiveCrashes),
+      ),
+      workersDown: crashed.filter((worker) => worker.status !== "running")
+        .length,
+    };
+  }
+
+  /**
+   * Forget a plugin's history (it was reloaded or unloaded). From now on
+   * only crashes of the given workers, its running version, count.
+   */
+  reset(pluginId: string, workers: Iterable<PluginWorkerBridge> = []): void {
+    this.current.set(pluginId, new Set(workers));
+    for (const [bridge, worker] of this.workers) {
+      if (bridge.manifest.id !== pluginId) continue;
+      clearTimeout(worker.restartTimer);
+      this.workers.delete(bridge);
+    }
+    this.health.delete(pluginId);
+  }
+
+  /**
+   * Cancel pending restarts and clear all state
+   */
+  stop(): void {
+    for (const worker of this.workers.values()) {
+      clearTimeout(worker.restartTimer);
+    }
+    this.workers.clear();
+    this.health.clear();
+    this.current.clear();
+  }
+}
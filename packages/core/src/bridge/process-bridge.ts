@@ -0,0 +1,190 @@
+/**
+ * Plugin Process Bridge
+ * Runs a plugin as a confined child process speaking the RPC protocol as
+ * newline-delimited JSON over stdio
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import { redactSecrets } from "./syscall-handler.js";
+import type { ProcessIsolation } from "./types.js";
+import {
+  createSandboxEnv,
+  PluginWorkerBridge,
+  type PluginChannel,
+  type PluginChannelEvents,
+} from "./worker-bridge.js";
+
+/** Longest stdout line accepted from a plugin (characters) */
+const MAX_LINE_LENGTH = 16 * 1024 * 1024;
+
+/**
+ * Call onLine for every newline-terminated line of a stream
+ */
+async function readLines(
+  stream: ReadableStream<Uint8Array>,
+  onLine: (line: string) => void,
+): Promise<void> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffered = "";
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffered += decoder.decode(value, { stream: true });
+
+    let newline = buffered.indexOf("\n");
+    while (newline !== -1) {
+      const line = buffered.slice(0, newline).trim();
+      buffered = buffered.slice(newline + 1);
+      if (line) onLine(line);
+      newline = buffered.indexOf("\n");
+    }
+
+    if (buffered.length > MAX_LINE_LENGTH) {
+      throw new Error(`Line exceeds ${MAX_LINE_LENGTH} characters`);
+    }
+  }
+
+  if (buffered.trim()) onLine(buffered.trim());
+}
+
+/**
+ * Read a process's resident memory from /proc (bytes), or null once it's gone
+ */
+function readResidentBytes(pid: number): number | null {
+  try {
+    const status = fs.readFileSync(`/proc/${pid}/status`, "utf-8");
+    const match = status.match(/^VmRSS:\s+(\d+) kB$/m);
+    return match ? Number(match[1]) * 1024 : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Wrap a plugin command so it runs in new network and IPC namespaces, as the
+ * configured user, without capabilities and unable to gain privileges.
+ * Namespaces don't hide the filesystem, so a user of its own is required:
+ * as the server's user, the plugin could read the server's config and
+ * secrets and send them out through the domains it may fetch.
+ */
+function isolateCommand(
+  command: string[],
+  isolation: ProcessIsolation = {},
+): string[] {
+  if (isolation.disabled) return command;
+  if (process.platform !== "linux") {
+    throw new Error(
+      "Plugin processes can only be isolated on Linux; " +
+        "disable processIsolation to run them unconfined",
+    );
+  }
+
+  const serverUid = process.getuid?.();
+  if (isolation.uid === undefined || isolation.uid === serverUid) {
+    throw new Error(
+      "Isolated plugin processes need a user other than the server's " +
+        "(processIsolation.uid), which can't read the server's files; " +
+        "disable processIsolation to run them unconfined",
+    );
+  }
+  if (serverUid !== 0) {
+    throw new Error(
+      `Running plugin processes as user ${isolation.uid} needs the server to run as root`,
+    );
+  }
+
+  return [
+    "unshare",
+    "--net",
+    "--ipc",
+    "--",
+    "setpriv",
+    `--reuid=${isolation.uid}`,
+    `--regid=${isolation.gid ?? isolation.uid}`,
+    "--clear-groups",
+    "--inh-caps=-all",
+    "--bounding-set=-all",
+    "--no-new-privs",
+    "--",
+    ...command,
+  ];
+}
+
+/**
+ * PluginProcessBridge
+ * Same RPC handling as the worker bridge, with a child process as transport
+ */
+export class PluginProcessBridge extends PluginWorkerBridge {
+  protected override openChannel(events: PluginChannelEvents): PluginChannel {
+    const hostPath = path.resolve(
+      import.meta.dirname,
+      "../../../plugin-sdk/src/runtime/stdio-host.ts",
+    );
+    // The loader only accepts manifest commands the operator approved
+    const command = isolateCommand(
+      this.manifest.command ?? [process.execPath, hostPath],
+      this.config.processIsolation,
+    );
+
+    const child = Bun.spawn(command, {
+      cwd: this.manifest.pluginPath,
+      env: createSandboxEnv(),
+      stdin: "pipe",
+      stdout: "pipe",
+      stderr: "pipe",
+    });
+
+    let lastStderrLine: string | undefined;
+
+    void readLines(child.stdout, (line) => {
+      let data: unknown;
+      try {
+        data = JSON.parse(line);
+      } catch {
+        console.warn(
+          `Plugin ${this.manifest.id} wrote a non-JSON line to stdout: ${line.slice(0, 200)}`,
+        );
+        return;
+      }
+      events.message(data);
+    }).catch((error) => {
+      events.error((error as Error).message);
+      child.kill();
+    });
+
+    // stderr is the plugin's log; keep the last line for crash reports.
+    // Both end up in the server log, so the plugin's secrets are masked.
+    void readLines(child.stderr, (line) => {
+      lastStderrLine = redactSecrets(this.manifest.id, line);
+      console.error(`[${this.manifest.id}] ${lastStderrLine}`);
+    }).catch(() => {
+      // The process is exiting
+    });
+
+    void child.exited.then((code) => {
+      events.exit(
+        `exit code ${code}` + (lastStderrLine ? ` (${lastStderrLine})` : ""),
+      );
+    });
+
+    return {
+      postMessage: (message) => {
+        try {
+          child.stdin.write(`${JSON.stringify(message)}\n`);
+          void child.stdin.flush();
+        } catch {
+          // The process already exited; the exit handler reports it
+        }
+      },
+      terminate: () => child.kill(),
+      // unshare and setpriv exec the plugin, so it keeps the child's pid
+      residentBytes:
+        process.platform === "linux"
+          ? () => readResidentBytes(child.pid)
+          : undefined,
+    };
+  }
+}
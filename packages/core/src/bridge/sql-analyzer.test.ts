@@ -0,0 +1,176 @@
+import { describe, expect, test } from "bun:test";
+import {
+  analyzeMigration,
+  analyzeSql,
+  bindRowFilter,
+  parseRowFilter,
+  SqlRejectedError,
+} from "./sql-analyzer.js";
+import type { DBReadScope } from "./types.js";
+
+/** Collapse whitespace, which the rewriter doesn't keep stable */
+const squash = (sql: string) => sql.replace(/\s+/g, " ");
+
+describe("analyzeSql", () => {
+  test("finds the tables a statement reads and writes", () => {
+    const access = analyzeSql(
+      "INSERT INTO notes (body) SELECT body FROM drafts JOIN users ON users.id = drafts.user_id",
+    );
+    expect(access.writes).toEqual(["notes"]);
+    expect(access.reads.sort()).toEqual(["drafts", "users"]);
+  });
+
+  test("qualifies tables outside the public schema", () => {
+    const access = analyzeSql("SELECT * FROM public.notes, billing.invoices");
+    expect(access.reads.sort()).toEqual(["billing.invoices", "notes"]);
+  });
+
+  test("doesn't count CTEs as tables", () => {
+    const access = analyzeSql(
+      "WITH recent AS (SELECT * FROM notes) SELECT * FROM recent",
+    );
+    expect(access.reads).toEqual(["notes"]);
+  });
+
+  test("rejects system catalogs", () => {
+    for (const sql of [
+      "SELECT * FROM pg_user",
+      "SELECT * FROM pg_catalog.pg_tables",
+      "SELECT * FROM information_schema.tables",
+      "SELECT * FROM notes WHERE id IN (SELECT oid FROM pg_class)",
+    ]) {
+      expect(() => analyzeSql(sql)).toThrow(SqlRejectedError);
+    }
+  });
+
+  test("rejects functions outside the allowlist", () => {
+    expect(() => analyzeSql("SELECT pg_read_file('/etc/passwd')")).toThrow(
+      "call function 'pg_read_file'",
+    );
+    expect(() =>
+      analyzeSql("SELECT * FROM notes WHERE id = (SELECT pg_sleep(10))"),
+    ).toThrow("call function 'pg_sleep'");
+    expect(() => analyzeSql("SELECT admin.lower(body) FROM notes")).toThrow(
+      "call function 'admin.lower'",
+    );
+  });
+
+  test("allows functions on the allowlist", () => {
+    expect(() =>
+      analyzeSql("SELECT lower(body), count(*) FROM notes GROUP BY 1"),
+    ).not.toThrow();
+  });
+
+  test("rejects other statement types and multiple statements", () => {
+    expect(() => analyzeSql("DROP TABLE notes")).toThrow(SqlRejectedError);
+    expect(() => analyzeSql("SELECT 1; SELECT 2")).toThrow(
+      "execute multiple SQL statements",
+    );
+    expect(() => analyzeSql("SELEC 1")).toThrow(SqlRejectedError);
+  });
+});
+
+describe("read scopes", () => {
+  const scopes: Record<string, DBReadScope> = {
+    notes: {
+      columns: ["id", "body"],
+      filter: "profile_id = current_profile_id()",
+    },
+  };
+  const lookup = (table: string) => scopes[table];
+
+  test("replaces a restricted table with its scope", () => {
+    const access = analyzeSql("SELECT body FROM notes WHERE id = 1", lookup);
+    expect(access.reads).toEqual(["notes"]);
+    expect(squash(access.sql)).toStartWith(
+      "SELECT body FROM (SELECT id , body FROM notes WHERE (profile_id = (current_profile_id () ))) AS notes WHERE id = 1",
+    );
+  });
+
+  test("keeps the alias a restricted table is read under", () => {
+    const access = analyzeSql("SELECT n.body FROM public.notes n", lookup);
+    expect(squash(access.sql)).toEndWith(") n");
+    expect(access.sql).toContain("FROM public.notes");
+  });
+
+  test("replaces the whole table reference, however it is written", () => {
+    const spaced = analyzeSql(
+      'SELECT body FROM public/**/.notes, "public" .\n "notes" AS n',
+      lookup,
+    );
+    expect(squash(spaced.sql)).toBe(
+      "SELECT body FROM (SELECT id , body FROM public.notes WHERE (profile_id = (current_profile_id () ))) AS notes, " +
+        "(SELECT id , body FROM public.notes WHERE (profile_id = (current_profile_id () ))) AS n",
+    );
+    expect(
+      squash(analyzeSql("SELECT * FROM notes/*x*/n", lookup).sql),
+    ).toEndWith(")))/*x*/n");
+  });
+
+  test("rejects renaming the columns of a restricted table", () => {
+    expect(() => analyzeSql("SELECT * FROM notes AS n (a, b)", lookup)).toThrow(
+      "rename the columns of table 'notes'",
+    );
+  });
+
+  test("leaves unrestricted tables alone", () => {
+    const sql = "SELECT * FROM drafts";
+    expect(analyzeSql(sql, lookup).sql).toBe(sql);
+  });
+
+  test("rejects writes to restricted tables", () => {
+    expect(() => analyzeSql("UPDATE notes SET body = 'x'", lookup)).toThrow(
+      "write to table 'notes'",
+    );
+    expect(() =>
+      analyzeSql("INSERT INTO notes (body) VALUES ('x')", lookup),
+    ).toThrow(SqlRejectedError);
+  });
+});
+
+describe("row filters", () => {
+  test("reject subqueries and disallowed functions", () => {
+    expect(() => parseRowFilter("id IN (SELECT id FROM users)")).toThrow(
+      SqlRejectedError,
+    );
+    expect(() => parseRowFilter("pg_sleep(1) IS NULL")).toThrow(
+      "call function 'pg_sleep'",
+    );
+  });
+
+  test("bind the request's profile as a literal", () => {
+    expect(bindRowFilter("profile_id = current_profile_id()", "p1")).toBe(
+      "(profile_id = ('p1'))",
+    );
+    expect(bindRowFilter("profile_id = current_profile_id()", "o'x")).toBe(
+      "(profile_id = ('o''x'))",
+    );
+  });
+
+  test("match no profile without one", () => {
+    expect(bindRowFilter("profile_id = current_profile_id()")).toBe(
+      "(profile_id = (null))",
+    );
+  });
+
+  test("are unchanged without current_profile_id()", () => {
+    expect(bindRowFilter("archived = false", "p1")).toBe("archived = false");
+  });
+});
+
+describe("analyzeMigration", () => {
+  test("allows changes to the plugin's own tables", () => {
+    expect(() =>
+      analyzeMigration(
+        "CREATE TABLE plugin_notes (id serial PRIMARY KEY, body text)",
+        ["plugin_notes"],
+      ),
+    ).not.toThrow();
+  });
+
+  test("rejects changes to other tables", () => {
+    expect(() =>
+      analyzeMigration("DROP TABLE users", ["plugin_notes"]),
+    ).toThrow(SqlRejectedError);
+  });
+});
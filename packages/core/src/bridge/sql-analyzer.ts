@@ -0,0 +1,586 @@
+/**
+ * SQL Analyzer
+ * Parses plugin SQL into an AST to find every table it reads and writes,
+ * rejects statements and functions outside an allowlist, and narrows reads
+ * of tables with column or row permissions. Plugin migrations are checked
+ * to only touch the plugin's own tables.
+ */
+
+import {
+  astMapper,
+  astVisitor,
+  parse,
+  toSql,
+  type ColumnConstraint,
+  type CreateColumnDef,
+  type Expr,
+  type ExprCall,
+  type FromTable,
+  type QName,
+  type Statement,
+  type TableConstraint,
+} from "pgsql-ast-parser";
+import type { DBReadScope } from "./types.js";
+
+/** Tables a statement touches, as named in plugin permissions */
+export interface SqlAccess {
+  reads: string[];
+  writes: string[];
+  /** The SQL to run, rewritten so restricted tables only show their scope */
+  sql: string;
+}
+
+/** Looks up the part of a table a plugin may read, if it is restricted */
+export type ReadScopeLookup = (table: string) => DBReadScope | undefined;
+
+/** SQL a plugin may not run; `action` says what it tried */
+export class SqlRejectedError extends Error {
+  constructor(public readonly action: string) {
+    super(`SQL rejected: ${action}`);
+    this.name = "SqlRejectedError";
+  }
+}
+
+/** Statement types plugins may run, including inside WITH */
+const ALLOWED_STATEMENTS = new Set<string>([
+  "select",
+  "union",
+  "union all",
+  "values",
+  "with",
+  "with recursive",
+  "insert",
+  "update",
+  "delete",
+]);
+
+/**
+ * Functions plugins may call. Anything that reads files, settings or other
+ * sessions, takes locks or changes state is left out.
+ */
+const ALLOWED_FUNCTIONS = new Set<string>([
+  // Subquery tests, which the parser reads as calls
+  "exists",
+  "any",
+  "all",
+  "some",
+  // Conditionals
+  "coalesce",
+  "nullif",
+  "greatest",
+  "least",
+  // Aggregates and window functions
+  "count",
+  "sum",
+  "avg",
+  "min",
+  "max",
+  "bool_and",
+  "bool_or",
+  "array_agg",
+  "string_agg",
+  "json_agg",
+  "jsonb_agg",
+  "json_object_agg",
+  "jsonb_object_agg",
+  "row_number",
+  "rank",
+  "dense_rank",
+  "lag",
+  "lead",
+  "first_value",
+  "last_value",
+  // Strings
+  "lower",
+  "upper",
+  "length",
+  "char_length",
+  "trim",
+  "btrim",
+  "ltrim",
+  "rtrim",
+  "substr",
+  "replace",
+  "concat",
+  "concat_ws",
+  "split_part",
+  "strpos",
+  "left",
+  "right",
+  "starts_with",
+  "md5",
+  "to_tsvector",
+  "to_tsquery",
+  "plainto_tsquery",
+  "websearch_to_tsquery",
+  "ts_rank",
+  // Numbers
+  "abs",
+  "ceil",
+  "ceiling",
+  "floor",
+  "round",
+  "trunc",
+  "mod",
+  "power",
+  "sqrt",
+  "random",
+  // Dates
+  "now",
+  "date_trunc",
+  "date_part",
+  "age",
+  "to_char",
+  "to_date",
+  "to_timestamp",
+  "make_interval",
+  // JSON and arrays
+  "json_build_object",
+  "jsonb_build_object",
+  "json_build_array",
+  "jsonb_build_array",
+  "to_json",
+  "to_jsonb",
+  "jsonb_set",
+  "json_array_elements",
+  "jsonb_array_elements",
+  "json_array_elements_text",
+  "jsonb_array_elements_text",
+  "json_array_length",
+  "jsonb_array_length",
+  "jsonb_extract_path",
+  "jsonb_extract_path_text",
+  "jsonb_typeof",
+  "array_length",
+  "array_position",
+  "array_to_string",
+  "cardinality",
+  "unnest",
+  "generate_series",
+  // IDs
+  "gen_random_uuid",
+  // pgvector (its operators can't be parsed, so plugins use these)
+  "cosine_distance",
+  "l2_distance",
+  "inner_product",
+  "l1_distance",
+  "vector_dims",
+]);
+
+/**
+ * Name a table the way plugin permissions do: schema-qualified unless it's
+ * in "public". System catalogs are never reachable.
+ */
+function tableName(name: QName): string {
+  const schema = name.schema;
+  const isCatalog = schema
+    ? schema.startsWith("pg_") || schema === "information_schema"
+    : name.name.startsWith("pg_");
+  const qualified =
+    schema && schema !== "public" ? `${schema}.${name.name}` : name.name;
+
+  if (isCatalog) {
+    throw new SqlRejectedError(`access system catalog '${qualified}'`);
+  }
+  return qualified;
+}
+
+/** Function row filters call for the profile a request came from */
+const PROFILE_FUNCTION = "current_profile_id";
+
+function isProfileCall(call: ExprCall): boolean {
+  return (
+    call.function.name === PROFILE_FUNCTION &&
+    !call.function.schema &&
+    call.args.length === 0
+  );
+}
+
+function checkFunction(call: ExprCall): void {
+  const { name, schema } = call.function;
+  if ((schema && schema !== "pg_catalog") || !ALLOWED_FUNCTIONS.has(name)) {
+    const qualified = schema ? `${schema}.${name}` : name;
+    throw new SqlRejectedError(`call function '${qualified}'`);
+  }
+}
+
+function parseError(error: unknown): string {
+  return (error as Error).message.split("\n")[0]?.replace(/:$/, "") ?? "";
+}
+
+/**
+ * Parse a row filter: a condition on a single row, so without subqueries
+ * or parameters, and calling only allowed functions and current_profile_id()
+ */
+export function parseRowFilter(filter: string): Expr {
+  let expr: Expr;
+  try {
+    expr = parse(filter, "expr");
+  } catch (error) {
+    throw new SqlRejectedError(
+      `use a row filter that can't be parsed (${parseError(error)})`,
+    );
+  }
+
+  astVisitor((v) => ({
+    select: () => {
+      throw new SqlRejectedError("use a subquery in a row filter");
+    },
+    parameter: () => {
+      throw new SqlRejectedError("use a parameter in a row filter");
+    },
+    call: (call) => {
+      if (isProfileCall(call)) return;
+      checkFunction(call);
+      v.super().call(call);
+    },
+  })).expr(expr);
+
+  return expr;
+}
+
+/**
+ * Fill in the profile a request came from wherever a row filter calls
+ * current_profile_id(). Without a profile the call is NULL, so the filter
+ * matches no rows.
+ */
+export function bindRowFilter(filter: string, profileId?: string): string {
+  let bound = false;
+  const expr = astMapper((m) => ({
+    call: (call) => {
+      if (!isProfileCall(call)) return m.super().call(call);
+      bound = true;
+      return profileId === undefined
+        ? { type: "null" }
+        : { type: "string", value: profileId };
+    },
+  })).expr(parseRowFilter(filter));
+
+  return bound && expr ? toSql.expr(expr) : filter;
+}
+
+/**
+ * Whether the text the parser gives for a table reference includes its
+ * alias. It does when the alias follows AS, and not otherwise.
+ */
+function writtenWithAlias(written: string): boolean {
+  const [statement] = parse(`SELECT * FROM ${written}`);
+  const [from] = statement?.type === "select" ? (statement.from ?? []) : [];
+  return from?.type === "table" && from.name.alias !== undefined;
+}
+
+/**
+ * Replace a table in FROM with a subquery of just its scope, under the
+ * table's name, so the rest of the statement can't tell the difference.
+ * Only the table reference the parser located is replaced; the plugin's
+ * SQL is otherwise run as written.
+ */
+function scopeTables(
+  sql: string,
+  tables: { from: FromTable; scope: DBReadScope }[],
+): string {
+  // Replace from the end, so earlier offsets stay valid
+  const ordered = [...tables].sort(
+    (a, b) => b.from.name._location!.start - a.from.name._location!.start,
+  );
+
+  let result = sql;
+  for (const { from, scope } of ordered) {
+    const { name } = from;
+    const { start, end } = name._location!;
+
+    const subquery = toSql.statement({
+      type: "select",
+      columns: (scope.columns ?? ["*"]).map((column) => ({
+        expr: { type: "ref", name: column },
+      })),
+      from: [{ type: "table", name: { name: name.name, schema: name.schema } }],
+      where: scope.filter ? parseRowFilter(scope.filter) : undefined,
+    });
+    // An alias outside the replaced text stays where it is
+    const alias =
+      name.alias && !writtenWithAlias(result.slice(start, end))
+        ? ""
+        : ` AS ${toSql.expr({ type: "ref", name: name.alias ?? name.name })}`;
+
+    result =
+      result.slice(0, start) + `(${subquery})${alias}` + result.slice(end);
+  }
+  return result;
+}
+
+/** Tables a statement reads and writes, and the reads to narrow */
+interface StatementAccess {
+  reads: Set<string>;
+  writes: Set<string>;
+  scoped: { from: FromTable; scope: DBReadScope }[];
+}
+
+/**
+ * Walk a statement for the tables it reads and writes, rejecting statement
+ * types and functions outside the allowlists and writes to restricted tables
+ */
+function collectAccess(
+  statement: Statement,
+  readScope: ReadScopeLookup,
+): StatementAccess {
+  const reads = new Set<string>();
+  const writes = new Set<string>();
+  const scoped: { from: FromTable; scope: DBReadScope }[] = [];
+  // Names bound by enclosing WITH clauses, which shadow tables
+  const cteScopes: Set<string>[] = [];
+  const isCte = (name: QName) =>
+    !name.schema && cteScopes.some((scope) => scope.has(name.name));
+
+  const addWrite = (name: QName) => {
+    const table = tableName(name);
+    if (readScope(table)) {
+      throw new SqlRejectedError(
+        `write to table '${table}', which has column or row restrictions`,
+      );
+    }
+    writes.add(table);
+  };
+
+  const visitor = astVisitor((v) => ({
+    statement: (statement) => {
+      if (!ALLOWED_STATEMENTS.has(statement.type)) {
+        throw new SqlRejectedError(
+          `run ${statement.type.toUpperCase()} statements`,
+        );
+      }
+      v.super().statement(statement);
+    },
+
+    // Each binding only sees the ones before it, so a CTE named like a
+    // table still reads the table in its own body
+    with: (statement) => {
+      const scope = new Set<string>();
+      cteScopes.push(scope);
+      for (const binding of statement.bind) {
+        v.statement(binding.statement);
+        scope.add(binding.alias.name);
+      }
+      v.statement(statement.in);
+      cteScopes.pop();
+    },
+
+    withRecursive: (statement) => {
+      cteScopes.push(new Set([statement.alias.name]));
+      v.union(statement.bind);
+      v.statement(statement.in);
+      cteScopes.pop();
+    },
+
+    fromTable: (from) => {
+      if (!isCte(from.name)) {
+        const table = tableName(from.name);
+        reads.add(table);
+        const scope = readScope(table);
+        if (scope && from.name.columnNames) {
+          // Renaming columns by position would rename the scope's instead
+          throw new SqlRejectedError(
+            `rename the columns of table '${table}', which has column or row restrictions`,
+          );
+        }
+        if (scope) scoped.push({ from, scope });
+      }
+      v.super().fromTable(from);
+    },
+
+    insert: (statement) => {
+      addWrite(statement.into);
+      v.super().insert(statement);
+    },
+
+    update: (statement) => {
+      addWrite(statement.table);
+      v.super().update(statement);
+    },
+
+    delete: (statement) => {
+      addWrite(statement.from);
+      v.super().delete(statement);
+    },
+
+    call: (call) => {
+      checkFunction(call);
+      v.super().call(call);
+    },
+  }));
+
+  visitor.statement(statement);
+  return { reads, writes, scoped };
+}
+
+/**
+ * Parse a single SQL statement and find the tables it reads and writes.
+ * Reads of tables with a scope are narrowed to it; writes to them are
+ * rejected. Throws SqlRejectedError for SQL a plugin may not run.
+ */
+export function analyzeSql(
+  sql: string,
+  readScope: ReadScopeLookup = () => undefined,
+): SqlAccess {
+  let statements: Statement[];
+  try {
+    statements = parse(sql, { locationTracking: true });
+  } catch (error) {
+    throw new SqlRejectedError(
+      `run SQL that can't be parsed (${parseError(error)})`,
+    );
+  }
+
+  if (statements.length !== 1) {
+    throw new SqlRejectedError(
+      statements.length === 0
+        ? "run an empty SQL query"
+        : "execute multiple SQL statements",
+    );
+  }
+
+  const { reads, writes, scoped } = collectAccess(statements[0]!, readScope);
+
+  return {
+    reads: [...reads],
+    writes: [...writes],
+    sql: scoped.length > 0 ? scopeTables(sql, scoped) : sql,
+  };
+}
+
+/**
+ * Check every function call in a node, however deeply it's nested.
+ * The AST visitor skips parts of DDL statements, like table constraints.
+ */
+function checkCalls(node: unknown): void {
+  if (Array.isArray(node)) {
+    node.forEach(checkCalls);
+    return;
+  }
+  if (!node || typeof node !== "object") return;
+
+  if ((node as { type?: unknown }).type === "call") {
+    checkFunction(node as ExprCall);
+  }
+  Object.values(node).forEach(checkCalls);
+}
+
+/**
+ * Parse a plugin migration and check that it only changes the plugin's own
+ * tables, whose database names are given, and indexes named after them.
+ * Besides the statements plugins may query with, migrations may create,
+ * alter and drop tables and create and drop indexes. Foreign keys may only
+ * reference the plugin's own tables. Throws SqlRejectedError otherwise.
+ */
+export function analyzeMigration(sql: string, ownTables: string[]): void {
+  let statements: Statement[];
+  try {
+    statements = parse(sql);
+  } catch (error) {
+    throw new SqlRejectedError(
+      `run a migration that can't be parsed (${parseError(error)})`,
+    );
+  }
+  if (statements.length === 0) {
+    throw new SqlRejectedError("run an empty migration");
+  }
+
+  const own = new Set(ownTables);
+  const checkTable = (name: QName) => {
+    const table = tableName(name);
+    if (!own.has(table)) {
+      throw new SqlRejectedError(
+        `use table '${table}', which the plugin doesn't own`,
+      );
+    }
+  };
+  const checkIndex = (name: QName) => {
+    const index = tableName(name);
+    if (!ownTables.some((table) => index.startsWith(table))) {
+      throw new SqlRejectedError(
+        `use index '${index}', which isn't named after one of the plugin's tables`,
+      );
+    }
+  };
+  const checkReferences = (
+    constraints: (ColumnConstraint | TableConstraint)[] | undefined,
+  ) => {
+    for (const constraint of constraints ?? []) {
+      if (
+        constraint.type === "reference" ||
+        constraint.type === "foreign key"
+      ) {
+        checkTable(constraint.foreignTable);
+      }
+    }
+  };
+  const checkColumns = (columns: CreateColumnDef[]) => {
+    for (const column of columns) checkReferences(column.constraints);
+  };
+
+  for (const statement of statements) {
+    switch (statement.type) {
+      case "create table":
+        checkTable(statement.name);
+        for (const column of statement.columns) {
+          if (column.kind === "like table") {
+            checkTable(column.like);
+          } else {
+            checkColumns([column]);
+          }
+        }
+        checkReferences(statement.constraints);
+        statement.inherits?.forEach(checkTable);
+        break;
+
+      case "alter table":
+        checkTable(statement.table);
+        for (const change of statement.changes) {
+          if (change.type === "owner") {
+            throw new SqlRejectedError("change the owner of a table");
+          }
+          if (change.type === "rename") {
+            checkTable({
+              name: change.to.name,
+              schema: statement.table.schema,
+            });
+          }
+          if (change.type === "add column") checkColumns([change.column]);
+          if (change.type === "add constraint") {
+            checkReferences([change.constraint]);
+          }
+        }
+        break;
+
+      case "create index":
+        checkTable(statement.table);
+        if (statement.indexName) {
+          checkIndex({
+            name: statement.indexName.name,
+            schema: statement.table.schema,
+          });
+        }
+        break;
+
+      case "drop table":
+        statement.names.forEach(checkTable);
+        break;
+
+      case "drop index":
+        statement.names.forEach(checkIndex);
+        break;
+
+      default: {
+        const { reads, writes } = collectAccess(statement, () => undefined);
+        for (const table of [...reads, ...writes]) {
+          if (!own.has(table)) {
+            throw new SqlRejectedError(
+              `use table '${table}', which the plugin doesn't own`,
+            );
+          }
+        }
+      }
+    }
+    checkCalls(statement);
+  }
+}
@@ -3,13 +3,103 @@
  * Processes system calls from plugins with permission checking
  */
 
-import type { LoadedPluginManifest } from "@workspace/plugin-sdk";
+import type {
+  LLMEmbedOptions,
+  LLMGenerateOptions,
+  LLMStructuredOptions,
+  LoadedPluginManifest,
+} from "@workspace/plugin-sdk";
 import { PermissionGuard, PermissionDeniedError } from "./permission-guard.js";
+import {
+  analyzeSql,
+  SqlRejectedError,
+  type SqlAccess,
+} from "./sql-analyzer.js";
 import type {
+  HookContext,
   SysCallDependencies,
   SysCallOrchestrator,
 } from "./types.js";
 
+/**
+ * Syscalls this handler serves, with the newest version of each.
+ * Sandboxes speaking an older version are still served; bump a version
+ * when a syscall's payload or result changes incompatibly.
+ */
+export const PROVIDED_SYSCALLS: Readonly<Record<string, number>> = {
+  "db.query": 1,
+  "db.getItems": 1,
+  "db.getItem": 1,
+  "db.insertItem": 1,
+  "db.updateItem": 1,
+  "db.deleteItem": 1,
+  "db.upsert": 1,
+  "network.fetch": 1,
+  log: 1,
+  "memory.get": 1,
+  "memory.set": 1,
+  "memory.delete": 1,
+  "memory.list": 1,
+  "memory.ttl": 1,
+  "skills.invoke": 1,
+  "events.publish": 1,
+  "secrets.get": 1,
+  "llm.generate": 1,
+  "llm.generateStructured": 1,
+  "llm.embed": 1,
+};
+
+/** Largest event payload a plugin may publish, serialized (bytes) */
+const MAX_EVENT_PAYLOAD_BYTES = 64 * 1024;
+
+/** Most texts a plugin may embed in one call */
+const MAX_EMBED_TEXTS = 1000;
+
+/**
+ * Check a row a plugin writes: a non-empty object of column values
+ */
+function checkRowValues(values: unknown): Record<string, unknown> {
+  if (
+    !values ||
+    typeof values !== "object" ||
+    Array.isArray(values) ||
+    Object.keys(values).length === 0
+  ) {
+    throw new Error("Row values must be an object with at least one column");
+  }
+  return values as Record<string, unknown>;
+}
+
+/** Secret values handed to each plugin, masked in what it logs */
+const issuedSecrets = new Map<string, Set<string>>();
+
+/**
+ * Replace the plugin's secret values in a log message or its metadata,
+ * or in anything else the plugin writes that ends up in the server log
+ */
+export function redactSecrets<T>(pluginId: string, value: T): T {
+  const secrets = issuedSecrets.get(pluginId);
+  if (!secrets?.size) return value;
+
+  const redact = (item: unknown): unknown => {
+    if (typeof item === "string") {
+      let redacted = item;
+      for (const secret of secrets) {
+        redacted = redacted.split(secret).join("[REDACTED]");
+      }
+      return redacted;
+    }
+    if (Array.isArray(item)) return item.map(redact);
+    if (item && typeof item === "object") {
+      return Object.fromEntries(
+        Object.entries(item).map(([key, entry]) => [key, redact(entry)]),
+      );
+    }
+    return item;
+  };
+  return redact(value) as T;
+}
+
 const SYSCALL_WINDOW_MS = 60_000;
 const MAX_SYSCALLS_PER_WINDOW = 300;
 
@@ -49,75 +139,6 @@ function enforceSysCallRateLimit(pluginId: string): void {
   currentState.count += 1;
 }
 
-function stripQuotedSegments(sql: string): string {
-  return sql.replace(/'(?:''|[^'])*'/g, " ");
-}
-
-function normalizeSqlForAnalysis(sql: string): string {
-  return stripQuotedSegments(sql)
-    .replace(/--.*$/gm, " ")
-    .replace(/\/\*[\s\S]*?\*\//g, " ")
-    .replace(/\s+/g, " ")
-    .trim();
-}
-
-function extractTableName(raw: string): string | null {
-  const normalized = raw
-    .replace(/["'`]/g, "")
-    .split(".")
-    .at(-1)
-    ?.trim();
-
-  if (!normalized) return null;
-  if (!/^[a-zA-Z_][\w$]*$/.test(normalized)) return null;
-  return normalized;
-}
-
-function extractTables(sql: string): string[] {
-  const normalizedSql = normalizeSqlForAnalysis(sql);
-  const tables = new Set<string>();
-  const patterns = [
-    /\bFROM\s+([`"]?[a-zA-Z_][\w$]*[`"]?(?:\.[`"]?[a-zA-Z_][\w$]*[`"]?)?)/gi,
-    /\bJOIN\s+([`"]?[a-zA-Z_][\w$]*[`"]?(?:\.[`"]?[a-zA-Z_][\w$]*[`"]?)?)/gi,
-    /\bINTO\s+([`"]?[a-zA-Z_][\w$]*[`"]?(?:\.[`"]?[a-zA-Z_][\w$]*[`"]?)?)/gi,
-    /\bUPDATE\s+([`"]?[a-zA-Z_][\w$]*[`"]?(?:\.[`"]?[a-zA-Z_][\w$]*[`"]?)?)/gi,
-    /\bDELETE\s+FROM\s+([`"]?[a-zA-Z_][\w$]*[`"]?(?:\.[`"]?[a-zA-Z_][\w$]*[`"]?)?)/gi,
-  ];
-
-  for (const pattern of patterns) {
-    let match: RegExpExecArray | null;
-    while ((match = pattern.exec(normalizedSql)) !== null) {
-      const table = extractTableName(match[1] ?? "");
-      if (table) tables.add(table);
-    }
-  }
-
-  return Array.from(tables);
-}
-
-function isWriteQuery(sql: string): boolean {
-  const normalizedSql = normalizeSqlForAnalysis(sql);
-  return /\b(INSERT|UPDATE|DELETE|CREATE|ALTER|DROP|TRUNCATE|REPLACE)\b/i.test(
-    normalizedSql,
-  );
-}
-
-function validateSingleStatement(sql: string, pluginId: string): void {
-  const normalizedSql = normalizeSqlForAnalysis(sql);
-  const statements = normalizedSql
-    .split(";")
-    .map((statement) => statement.trim())
-    .filter(Boolean);
-
-  if (statements.length > 1) {
-    throw new PermissionDeniedError(
-      pluginId,
-      "db.query",
-      "execute multiple SQL statements",
-    );
-  }
-}
-
 /**
  * Create a system call handler with dependencies
  */
@@ -129,45 +150,118 @@ export function createSysCallHandler(
     method: string,
     payload: unknown,
     manifest: LoadedPluginManifest,
+    context: HookContext = {},
   ): Promise<unknown> {
     enforceSysCallRateLimit(manifest.id);
 
-    const guard = new PermissionGuard(manifest);
+    const guard = new PermissionGuard(manifest, context, (table) =>
+      deps.db.resolveTable(table),
+    );
     const data = payload as Record<string, unknown>;
+    // Item methods check and scope tables by their database name
+    const itemTable = () => deps.db.resolveTable(data.table as string);
 
     if (method === "db.query") {
       const { sql, params } = data as { sql: string; params?: unknown[] };
-      validateSingleStatement(sql, manifest.id);
-      const tables = extractTables(sql);
-      const writeQuery = isWriteQuery(sql);
+      let access: SqlAccess;
+      try {
+        access = analyzeSql(sql, (table) => guard.getDBReadScope(table));
+      } catch (error) {
+        if (error instanceof SqlRejectedError) {
+          throw new PermissionDeniedError(
+            manifest.id,
+            "db.query",
+            error.action,
+          );
+        }
+        throw error;
+      }
 
-      if (tables.length === 0) {
+      if (access.reads.length === 0 && access.writes.length === 0) {
         // Fail closed unless plugin has wildcard table access.
-        guard.checkDBAccess("*", writeQuery);
-      } else {
-        for (const table of tables) {
-          guard.checkDBAccess(table, writeQuery);
-        }
+        guard.checkDBAccess("*", false);
+      }
+      for (const table of access.reads) {
+        guard.checkDBAccess(table, false);
+      }
+      for (const table of access.writes) {
+        guard.checkDBAccess(table, true);
       }
 
-      return deps.db.query(sql, params);
+      // Every table written was checked above, including the plugin's own
+      return deps.db.query(access.sql, params, {
+        readOnly: access.writes.length === 0,
+      });
     }
 
     if (method === "db.getItems") {
-      const { table, where, limit, offset } = data as {
-        table: string;
+      const table = itemTable();
+      const { where, limit, offset } = data as {
         where?: Record<string, unknown>;
         limit?: number;
         offset?: number;
       };
       guard.checkDBAccess(table, false);
-      return deps.db.getItems(table, { where, limit, offset });
+      guard.checkDBColumns(table, Object.keys(where ?? {}));
+      return deps.db.getItems(table, {
+        ...guard.getDBReadScope(table),
+        where,
+        limit,
+        offset,
+      });
     }
 
     if (method === "db.getItem") {
-      const { table, id } = data as { table: string; id: string };
+      const table = itemTable();
+      const { id } = data as { id: string };
       guard.checkDBAccess(table, false);
-      return deps.db.getItem(table, id);
+      return deps.db.getItem(table, id, guard.getDBReadScope(table));
+    }
+
+    if (method === "db.insertItem" || method === "db.upsert") {
+      const table = itemTable();
+      const { values, onConflict } = data as {
+        values: unknown;
+        onConflict?: string[];
+      };
+      const row = checkRowValues(values);
+      guard.checkDBAccess(table, true);
+      guard.checkDBColumns(table, Object.keys(row));
+      const options = {
+        pluginId: manifest.id,
+        scope: guard.getDBReadScope(table),
+      };
+
+      if (method === "db.insertItem") {
+        return deps.db.insertItem(table, row, options);
+      }
+      guard.checkDBColumns(table, onConflict ?? ["id"]);
+      return deps.db.upsert(table, row, { ...options, onConflict });
+    }
+
+    if (method === "db.updateItem") {
+      const table = itemTable();
+      const { id, values } = data as {
+        id: string;
+        values: unknown;
+      };
+      const row = checkRowValues(values);
+      guard.checkDBAccess(table, true);
+      guard.checkDBColumns(table, Object.keys(row));
+      return deps.db.updateItem(table, id, row, {
+        pluginId: manifest.id,
+        scope: guard.getDBReadScope(table),
+      });
+    }
+
+    if (method === "db.deleteItem") {
+      const table = itemTable();
+      const { id } = data as { id: string };
+      guard.checkDBAccess(table, true);
+      return deps.db.deleteItem(table, id, {
+        pluginId: manifest.id,
+        scope: guard.getDBReadScope(table),
+      });
     }
 
     if (method === "network.fetch") {
@@ -213,7 +307,10 @@ export function createSysCallHandler(
       };
 
       if (guard.checkLogLevel(level)) {
-        deps.logger[level](`[${pluginId}] ${message}`, meta);
+        deps.logger[level](
+          `[${pluginId}] ${redactSecrets(manifest.id, message)}`,
+          redactSecrets(manifest.id, meta),
+        );
       }
       return undefined;
     }
@@ -269,13 +366,86 @@ export function createSysCallHandler(
       };
       guard.checkSkillAccess(skillName);
       if (!orchestrator) throw new Error("Skill invocation not available");
-      const result = await orchestrator.executeSkill(skillName, args);
+      const result = await orchestrator.executeSkill(skillName, args, context);
       if (!result.success) {
         throw new Error(result.error || "Skill execution failed");
       }
       return result.result;
     }
 
+    if (method === "events.publish") {
+      const { topic, payload: eventPayload } = data as {
+        topic: string;
+        payload?: unknown;
+      };
+      guard.checkEventPublish(topic);
+      if (!orchestrator) throw new Error("Event bus not available");
+
+      const size = Buffer.byteLength(JSON.stringify(eventPayload ?? null));
+      if (size > MAX_EVENT_PAYLOAD_BYTES) {
+        throw new Error(
+          `Event payload is ${size} bytes; the limit is ${MAX_EVENT_PAYLOAD_BYTES}`,
+        );
+      }
+
+      orchestrator.publishEvent(topic, eventPayload ?? null, manifest.id);
+      return undefined;
+    }
+
+    if (method === "secrets.get") {
+      const { name } = data as { name: string };
+      const secret = guard.checkSecretAccess(name);
+      if (!orchestrator) throw new Error("Secrets not available");
+
+      const value = await orchestrator.getSecret(manifest.id, name);
+      if (value === null) {
+        if (secret.required) throw new Error(`Secret '${name}' is not set`);
+        return null;
+      }
+
+      const issued = issuedSecrets.get(manifest.id) ?? new Set<string>();
+      issued.add(value);
+      issuedSecrets.set(manifest.id, issued);
+      return value;
+    }
+
+    if (method === "llm.generate") {
+      const options = payload as LLMGenerateOptions;
+      const maxTokens = guard.checkLLMGenerate(options.maxTokens);
+      if (!orchestrator) throw new Error("LLM not available");
+      return orchestrator.llmGenerate(manifest.id, { ...options, maxTokens });
+    }
+
+    if (method === "llm.generateStructured") {
+      const options = payload as LLMStructuredOptions;
+      const maxTokens = guard.checkLLMGenerate(options.maxTokens);
+      if (!orchestrator) throw new Error("LLM not available");
+      if (!options.schema || typeof options.schema !== "object") {
+        throw new Error("generateStructured needs a JSON Schema");
+      }
+      return orchestrator.llmGenerateStructured(manifest.id, {
+        ...options,
+        maxTokens,
+      });
+    }
+
+    if (method === "llm.embed") {
+      const options = payload as LLMEmbedOptions;
+      guard.checkLLMEmbed();
+      if (!orchestrator) throw new Error("LLM not available");
+
+      const texts = Array.isArray(options.text) ? options.text : [options.text];
+      if (texts.some((text) => typeof text !== "string")) {
+        throw new Error("embed needs a text or an array of texts");
+      }
+      if (texts.length > MAX_EMBED_TEXTS) {
+        throw new Error(
+          `Cannot embed ${texts.length} texts at once; the limit is ${MAX_EMBED_TEXTS}`,
+        );
+      }
+      return orchestrator.llmEmbed(manifest.id, options);
+    }
+
     throw new Error(`Unknown system call: ${method}`);
   };
 }
@@ -1,3 +1,16 @@
+import type {
+  LLMEmbedOptions,
+  LLMEmbedResult,
+  LLMGenerateOptions,
+  LLMGenerateResult,
+  LLMStructuredOptions,
+  LLMStructuredResult,
+  LoadedPluginManifest,
+  Migration,
+  ResourceLimits,
+} from "@workspace/plugin-sdk";
+import type { PluginWorkerBridge } from "./worker-bridge.js";
+
 /** Logger interface for system calls */
 export interface SystemLogger {
   debug(message: string, meta?: Record<string, unknown>): void;
@@ -6,21 +19,101 @@ export interface SystemLogger {
   error(message: string, meta?: Record<string, unknown>): void;
 }
 
+/** How a plugin's raw query must run */
+export interface DBQueryOptions {
+  /**
+   * Run in a READ ONLY transaction, so the database rejects writes
+   * (set unless the plugin has read-write access)
+   */
+  readOnly?: boolean;
+}
+
+/**
+ * Part of a table a plugin may read, from its column and row permissions
+ */
+export interface DBReadScope {
+  /** Columns to return, or every column */
+  columns?: string[];
+  /** SQL condition every returned row meets */
+  filter?: string;
+}
+
+/** Who a plugin's write is for and which rows it may touch */
+export interface DBWriteOptions {
+  /** Plugin the audit log attributes the write to */
+  pluginId: string;
+  /**
+   * Rows and columns the plugin may see; writes only touch rows in this
+   * scope and must leave them in it
+   */
+  scope?: DBReadScope;
+}
+
+/**
+ * Who a hook call is made for. Syscalls the plugin makes while handling the
+ * call are checked in this context.
+ */
+export interface HookContext {
+  /** Profile the request came from, for row filters on current_profile_id() */
+  profileId?: string;
+}
+
 /** Database adapter interface */
 export interface DBAdapter {
+  /**
+   * Database name of a table the item methods are given, which may leave
+   * out the prefix of primary tables (e.g. "items" for "fc_items")
+   */
+  resolveTable(table: string): string;
   query(
     sql: string,
     params?: unknown[],
+    options?: DBQueryOptions,
   ): Promise<{ rows: unknown[]; rowCount: number }>;
   getItems(
     table: string,
-    options?: {
+    options?: DBReadScope & {
       where?: Record<string, unknown>;
       limit?: number;
       offset?: number;
     },
   ): Promise<unknown[]>;
-  getItem(table: string, id: string): Promise<unknown | null>;
+  getItem(
+    table: string,
+    id: string,
+    scope?: DBReadScope,
+  ): Promise<unknown | null>;
+  insertItem(
+    table: string,
+    values: Record<string, unknown>,
+    options: DBWriteOptions,
+  ): Promise<unknown>;
+  updateItem(
+    table: string,
+    id: string,
+    values: Record<string, unknown>,
+    options: DBWriteOptions,
+  ): Promise<unknown | null>;
+  deleteItem(
+    table: string,
+    id: string,
+    options: DBWriteOptions,
+  ): Promise<boolean>;
+  upsert(
+    table: string,
+    values: Record<string, unknown>,
+    options: DBWriteOptions & { onConflict?: string[] },
+  ): Promise<unknown>;
+  /**
+   * Run the migrations a plugin hasn't run yet, in version order, resolving
+   * the versions run. Each runs in its own transaction with its record.
+   */
+  migratePluginTables(
+    pluginId: string,
+    migrations: Migration[],
+  ): Promise<number[]>;
+  /** Drop a plugin's tables and forget the migrations it ran */
+  dropPluginTables(pluginId: string, tables: string[]): Promise<void>;
 }
 
 /** Orchestrator methods required by syscall handler */
@@ -37,7 +130,22 @@ export interface SysCallOrchestrator {
   executeSkill: (
     skillName: string,
     args: Record<string, unknown>,
+    context?: HookContext,
   ) => Promise<{ success: boolean; result?: unknown; error?: string }>;
+  publishEvent: (topic: string, payload: unknown, source: string) => unknown;
+  getSecret: (pluginId: string, name: string) => Promise<string | null>;
+  llmGenerate: (
+    pluginId: string,
+    options: LLMGenerateOptions,
+  ) => Promise<LLMGenerateResult>;
+  llmGenerateStructured: (
+    pluginId: string,
+    options: LLMStructuredOptions,
+  ) => Promise<LLMStructuredResult>;
+  llmEmbed: (
+    pluginId: string,
+    options: LLMEmbedOptions,
+  ) => Promise<LLMEmbedResult>;
 }
 
 /** System call handler dependencies */
@@ -45,3 +153,79 @@ export interface SysCallDependencies {
   db: DBAdapter;
   logger: SystemLogger;
 }
+
+/** What a bridge learned about its plugin during the RPC handshake */
+export interface PluginCapabilities {
+  /** Negotiated RPC protocol version */
+  protocolVersion: number;
+  sdkVersion?: string;
+  /** Hooks the plugin implements, or null when the sandbox didn't say (v1) */
+  hooks: string[] | null;
+  /** Syscalls the sandbox may issue, with the version of each it speaks */
+  syscalls: Record<string, number>;
+  /**
+   * Syscalls the sandbox speaks a newer version of than this core provides
+   * (e.g. "db.query v2"); the plugin runs, but calling them fails
+   */
+  unsupportedSyscalls: string[];
+}
+
+/**
+ * How stdio plugin processes are confined. On Linux each one runs in its own
+ * network and IPC namespaces, so it can only reach the network through the
+ * network.fetch syscall. The filesystem isn't hidden: a process can read
+ * whatever its user can, so it must run as a user of its own.
+ */
+export interface ProcessIsolation {
+  /** Run plugin processes unconfined, e.g. where namespaces are unavailable */
+  disabled?: boolean;
+  /**
+   * User the processes run as, required unless isolation is disabled. It
+   * must not be able to read the server's config, .env or secrets file.
+   * Switching users needs the server to run as root.
+   */
+  uid?: number;
+  /** Group the processes run as (defaults to uid) */
+  gid?: number;
+}
+
+/** A plugin went over one of its resource limits */
+export interface ResourceViolation {
+  pluginId: string;
+  limit: keyof ResourceLimits;
+  /** The configured limit */
+  allowed: number;
+  /** What the plugin actually used */
+  observed: number;
+  /** Hook that was running or being called, if any */
+  method?: string;
+  at: number;
+}
+
+/** Receives hook outcomes and crashes from a worker bridge */
+export interface BridgeObserver {
+  onHookSuccess?(pluginId: string, method: string): void;
+  onHookFailure?(pluginId: string, method: string, error: Error): void;
+  onResourceViolation?(violation: ResourceViolation): void;
+  /** The worker exited after startup without being stopped */
+  onCrash?(bridge: PluginWorkerBridge, error: Error): void;
+}
+
+/** A running plugin as pipelines see it: a single worker or a pool of them */
+export interface PluginBridge {
+  readonly manifest: LoadedPluginManifest;
+  /** What the plugin reported during the handshake (null until started) */
+  readonly capabilities: PluginCapabilities | null;
+  readonly ready: boolean;
+  start(): Promise<void>;
+  callHook<T = unknown>(
+    method: string,
+    payload: unknown,
+    context?: HookContext,
+  ): Promise<T | undefined>;
+  /** Hand the plugin new configuration through its onConfigChange hook */
+  updateConfig(config: Record<string, unknown>): Promise<void>;
+  /** Wait for in-flight hook calls to settle */
+  drain(): Promise<void>;
+  stop(): Promise<void>;
+}
@@ -0,0 +1,178 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import {
+  createSysCallRequest,
+  type LoadedPluginManifest,
+  type RPCRequestId,
+} from "@workspace/plugin-sdk";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { PluginLoader } from "../loader/plugin-loader.js";
+import type { HookContext } from "./types.js";
+import {
+  PluginWorkerBridge,
+  type PluginChannel,
+  type PluginChannelEvents,
+} from "./worker-bridge.js";
+
+/** A bridge whose next worker fails to spawn or to answer the handshake */
+class FlakyBridge extends PluginWorkerBridge {
+  failure: "spawn" | "handshake" | null = null;
+
+  protected override openChannel(events: PluginChannelEvents): PluginChannel {
+    if (this.failure === "spawn") throw new Error("spawn failed");
+    if (this.failure === "handshake") {
+      return { postMessage: () => {}, terminate: () => {} };
+    }
+    return super.openChannel(events);
+  }
+}
+
+/**
+ * A bridge that records the messages core sends its worker, and can make
+ * syscalls as if the worker had
+ */
+class TappedBridge extends PluginWorkerBridge {
+  sent: { id: RPCRequestId; type: string }[] = [];
+  private deliver!: (data: unknown) => void;
+
+  protected override openChannel(events: PluginChannelEvents): PluginChannel {
+    this.deliver = events.message;
+    const channel = super.openChannel(events);
+    return {
+      postMessage: (message) => {
+        this.sent.push(message as { id: RPCRequestId; type: string });
+        channel.postMessage(message);
+      },
+      terminate: () => channel.terminate(),
+    };
+  }
+
+  /** The first message core sent the worker that matches, once it has */
+  async sentMessage(
+    match: (message: { id: RPCRequestId; type: string }) => boolean,
+  ) {
+    for (;;) {
+      const message = this.sent.find(match);
+      if (message) return message;
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+  }
+
+  /** Make a syscall for a hook call, and wait for core's answer */
+  async sysCall(hookId: RPCRequestId) {
+    const request = createSysCallRequest("db.query", {}, hookId);
+    this.deliver(request);
+    return this.sentMessage((message) => message.id === request.id);
+  }
+}
+
+describe("PluginWorkerBridge", () => {
+  let root: string;
+  let manifest: LoadedPluginManifest;
+
+  beforeAll(async () => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "frontclaw-bridge-"));
+    const pluginDir = path.join(root, "echo");
+    fs.mkdirSync(pluginDir);
+    fs.writeFileSync(
+      path.join(pluginDir, "frontclaw.json"),
+      JSON.stringify({
+        id: "echo",
+        name: "Echo",
+        version: "1.0.0",
+        permissions: {},
+      }),
+    );
+    fs.writeFileSync(path.join(pluginDir, "README.md"), "# Echo\n");
+    fs.writeFileSync(
+      path.join(pluginDir, "index.ts"),
+      [
+        "export default {",
+        "  async getTools() { return []; },",
+        "  async onPrompt() { await new Promise((r) => setTimeout(r, 200)); },",
+        "};",
+        "",
+      ].join("\n"),
+    );
+    manifest = await new PluginLoader({ pluginsDir: root }).loadPlugin(
+      pluginDir,
+    );
+  });
+
+  afterAll(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  for (const failure of ["spawn", "handshake"] as const) {
+    test(`settles waiting calls when a restart fails to ${failure}`, async () => {
+      const bridge = new FlakyBridge(manifest, async () => undefined, {
+        hookTimeout: 300,
+        sysCallTimeout: 1000,
+      });
+      await bridge.start();
+      expect(await bridge.callHook<unknown[]>("getTools", undefined)).toEqual(
+        [],
+      );
+
+      bridge.failure = failure;
+      await expect(bridge.restart()).rejects.toThrow();
+      expect(bridge.ready).toBe(false);
+
+      await expect(bridge.callHook("getTools", undefined)).rejects.toThrow(
+        expect.objectContaining({ code: "WORKER_UNAVAILABLE" }),
+      );
+      await expect(bridge.updateConfig({})).rejects.toThrow();
+      await bridge.stop();
+    });
+  }
+
+  test("recovers on a later restart", async () => {
+    const bridge = new FlakyBridge(manifest, async () => undefined, {
+      hookTimeout: 300,
+      sysCallTimeout: 1000,
+    });
+    await bridge.start();
+
+    bridge.failure = "spawn";
+    await expect(bridge.restart()).rejects.toThrow("spawn failed");
+
+    bridge.failure = null;
+    await bridge.restart();
+    expect(bridge.ready).toBe(true);
+    expect(await bridge.callHook<unknown[]>("getTools", undefined)).toEqual([]);
+    await bridge.stop();
+  });
+
+  test("runs syscalls only for hook calls in flight", async () => {
+    const contexts: (HookContext | undefined)[] = [];
+    const bridge = new TappedBridge(
+      manifest,
+      async (_method, _payload, _manifest, context) => {
+        contexts.push(context);
+        return [];
+      },
+      { hookTimeout: 1000, sysCallTimeout: 1000 },
+    );
+    await bridge.start();
+
+    const call = bridge.callHook("onPrompt", {}, { profileId: "p1" });
+    const hookId = (
+      await bridge.sentMessage((message) => message.type === "HOOK")
+    ).id;
+    expect(await bridge.sysCall(hookId)).toMatchObject({ type: "RESPONSE" });
+    expect(contexts).toEqual([{ profileId: "p1" }]);
+
+    expect(await bridge.sysCall(crypto.randomUUID())).toMatchObject({
+      type: "ERROR",
+      error: { code: "HOOK_NOT_IN_FLIGHT" },
+    });
+    await call;
+    expect(await bridge.sysCall(hookId)).toMatchObject({
+      type: "ERROR",
+      error: { code: "HOOK_NOT_IN_FLIGHT" },
+    });
+    expect(contexts).toHaveLength(1);
+    await bridge.stop();
+  });
+});
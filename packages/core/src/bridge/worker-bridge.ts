@@ -4,8 +4,9 @@
  */
 
 import type {
+  RPCCapabilities,
   RPCMessage,
-  RPCResponse,
+  RPCSandboxReady,
   RPCHookRequest,
   RPCSysCallRequest,
   LoadedPluginManifest,
@@ -15,8 +16,19 @@ import {
   createHookRequest,
   createSuccessResponse,
   createErrorResponse,
+  MIN_RPC_PROTOCOL_VERSION,
+  RPC_PROTOCOL_VERSION,
 } from "@workspace/plugin-sdk";
 import path from "node:path";
+import { PROVIDED_SYSCALLS } from "./syscall-handler.js";
+import type {
+  BridgeObserver,
+  HookContext,
+  PluginBridge,
+  PluginCapabilities,
+  ProcessIsolation,
+  ResourceViolation,
+} from "./types.js";
 
 /** Bridge configuration */
 export interface BridgeConfig {
@@ -24,6 +36,8 @@ export interface BridgeConfig {
   hookTimeout: number;
   /** System call timeout in milliseconds */
   sysCallTimeout: number;
+  /** Confinement of stdio plugin processes (on by default, needs a uid) */
+  processIsolation?: ProcessIsolation;
 }
 
 const DEFAULT_CONFIG: BridgeConfig = {
@@ -31,6 +45,32 @@ const DEFAULT_CONFIG: BridgeConfig = {
   sysCallTimeout: 30000,
 };
 
+/** How often the memory of a sandbox with a heap limit is checked (ms) */
+const USAGE_REPORT_INTERVAL_MS = 1000;
+
+/**
+ * Heap usage reported by the sandbox. Plugin code can forge or stop these,
+ * so they only count where the host can't measure the sandbox itself.
+ */
+interface ResourceUsageReport {
+  type: "RESOURCE_USAGE";
+  heapBytes: number;
+}
+
+/** Syscalls v1 sandboxes could issue; they didn't advertise any */
+const V1_SYSCALLS: Record<string, number> = {
+  "db.query": 1,
+  "db.getItems": 1,
+  "db.getItem": 1,
+  "network.fetch": 1,
+  log: 1,
+  "memory.get": 1,
+  "memory.set": 1,
+  "memory.delete": 1,
+  "memory.list": 1,
+  "skills.invoke": 1,
+};
+
 function sanitizeStackForPlugin(stack?: string): string | undefined {
   if (!stack) return undefined;
   if (process.env.NODE_ENV === "production") return undefined;
@@ -41,36 +81,89 @@ function sanitizeStackForPlugin(stack?: string): string | undefined {
     .join("\n");
 }
 
+/** Create an error carrying an RPC error code */
+function createBridgeError(message: string, code: string): Error {
+  return Object.assign(new Error(message), { code });
+}
+
+/** What a plugin channel reports back to its bridge */
+export interface PluginChannelEvents {
+  /** A message (RPC envelope or sandbox notice) arrived */
+  message(data: unknown): void;
+  /** The sandbox raised an uncaught error */
+  error(message: string): void;
+  /** The sandbox went away */
+  exit(reason?: string): void;
+}
+
+/** Connection to a running plugin sandbox */
+export interface PluginChannel {
+  postMessage(message: unknown): void;
+  terminate(): void;
+  /**
+   * Memory the sandbox uses as the host measures it (bytes), or null when
+   * unknown. Transports without it rely on the sandbox's own reports.
+   */
+  residentBytes?(): number | null;
+}
+
+/** Environment for plugin sandboxes: none of the server's secrets or DB URLs */
+export function createSandboxEnv(): Record<string, string> {
+  return process.env.NODE_ENV ? { NODE_ENV: process.env.NODE_ENV } : {};
+}
+
 /** System call handler function */
 export type SysCallHandler = (
   method: string,
   payload: unknown,
   manifest: LoadedPluginManifest,
+  context?: HookContext,
 ) => Promise<unknown>;
 
 /**
  * PluginWorkerBridge
  * Manages a single plugin worker and its RPC communication
  */
-export class PluginWorkerBridge {
-  private worker: Worker | null = null;
+export class PluginWorkerBridge implements PluginBridge {
+  private channel: PluginChannel | null = null;
   private pendingRequests = new Map<
     string,
     {
       resolve: (value: unknown) => void;
       reject: (error: Error) => void;
       timeout: Timer;
+      /** Context of a hook call, for the syscalls made while it runs */
+      context?: HookContext;
     }
   >();
+  /** Budget timers per hook call, kept until the worker actually answers */
+  private hookBudgets = new Map<string, Timer>();
   private isReady = false;
-  private readyPromise: Promise<void>;
+  private isStopped = false;
+  private readyPromise!: Promise<void>;
   private readyResolve!: () => void;
+  private lastWorkerError: string | null = null;
+  /** Settles once the sandbox announces itself */
+  private sandboxReady: {
+    resolve: (notice: RPCSandboxReady) => void;
+    reject: (error: Error) => void;
+  } | null = null;
+  private pluginCapabilities: PluginCapabilities | null = null;
+  /** Configuration sent at INIT, replaced when it changes at runtime */
+  private pluginConfig: Record<string, unknown>;
 
   constructor(
     public readonly manifest: LoadedPluginManifest,
     private readonly sysCallHandler: SysCallHandler,
-    private readonly config: BridgeConfig = DEFAULT_CONFIG,
+    protected readonly config: BridgeConfig = DEFAULT_CONFIG,
+    private readonly observer?: BridgeObserver,
   ) {
+    this.pluginConfig = manifest.config;
+    this.resetReady();
+  }
+
+  private resetReady(): void {
+    this.isReady = false;
     this.readyPromise = new Promise((resolve) => {
       this.readyResolve = resolve;
     });
@@ -80,94 +173,211 @@ export class PluginWorkerBridge {
    * Start the worker and initialize the plugin
    */
   async start(): Promise<void> {
+    try {
+      const channel: PluginChannel = this.openChannel({
+        message: (data) => {
+          if (channel === this.channel) {
+            void this.handleWorkerMessage(
+              data as RPCMessage | ResourceUsageReport | RPCSandboxReady,
+            );
+          }
+        },
+        error: (message) => {
+          if (channel !== this.channel) return;
+          this.lastWorkerError = message;
+          this.sandboxReady?.reject(
+            new Error(`Sandbox error for ${this.manifest.id}: ${message}`),
+          );
+        },
+        exit: (reason) => this.handleWorkerExit(channel, reason),
+      });
+      this.channel = channel;
+      this.lastWorkerError = null;
+      this.watchResidentMemory(channel);
+
+      await this.bootWorker();
+    } catch (error) {
+      // Don't leave a half-initialized worker behind, and let calls waiting
+      // for it fail now instead of waiting for a start that never comes
+      this.channel?.terminate();
+      this.channel = null;
+      this.readyResolve();
+      throw error;
+    }
+
+    this.isReady = true;
+    this.readyResolve();
+  }
+
+  /**
+   * Spawn the plugin sandbox
+   * Runs it in a Bun Worker; other bridges override this with another transport.
+   */
+  protected openChannel(events: PluginChannelEvents): PluginChannel {
     // Get the sandbox runtime path (monorepo workspace path)
     const sandboxPath = path.resolve(
       import.meta.dirname,
       "../../../plugin-sdk/src/runtime/sandbox.ts",
     );
 
-    // Create the worker
-    this.worker = new Worker(sandboxPath, {
+    const worker = new Worker(sandboxPath, {
       type: "module",
+      env: createSandboxEnv(),
+    });
+
+    worker.onmessage = (event) => events.message(event.data);
+    worker.addEventListener("error", (event) => {
+      events.error(event instanceof ErrorEvent ? event.message : "unknown error");
     });
+    worker.addEventListener("messageerror", () => {
+      events.error("message could not be deserialized");
+    });
+    worker.addEventListener("close", () => events.exit());
+
+    return worker;
+  }
 
-    // Set up message handler
-    this.worker.onmessage = this.handleWorkerMessage.bind(this);
+  /**
+   * Check the memory of a sandbox the host can measure against the heap
+   * limit, until the channel is replaced or closed
+   */
+  private watchResidentMemory(channel: PluginChannel): void {
+    if (!this.manifest.limits?.maxHeapMb || !channel.residentBytes) return;
+
+    const timer = setInterval(() => {
+      if (channel !== this.channel) {
+        clearInterval(timer);
+        return;
+      }
+      const bytes = channel.residentBytes!();
+      if (bytes !== null) this.checkHeapUsage(bytes);
+    }, USAGE_REPORT_INTERVAL_MS);
+  }
 
+  /**
+   * Wait for the sandbox and initialize the plugin inside it
+   */
+  private async bootWorker(): Promise<void> {
     // Wait for sandbox to be ready
-    await new Promise<void>((resolve, reject) => {
+    const notice = await new Promise<RPCSandboxReady>((resolve, reject) => {
       const timeout = setTimeout(() => {
+        this.sandboxReady = null;
         reject(new Error(`Sandbox ready timeout for ${this.manifest.id}`));
       }, this.config.hookTimeout);
 
-      const handler = (event: MessageEvent) => {
-        if (event.data?.type === "SANDBOX_READY") {
+      this.sandboxReady = {
+        resolve: (notice) => {
           clearTimeout(timeout);
-          resolve();
-        }
-      };
-
-      const errorHandler = (event: Event) => {
-        clearTimeout(timeout);
-        const message =
-          event instanceof ErrorEvent
-            ? event.message
-            : "unknown error";
-        reject(
-          new Error(
-            `Sandbox error for ${this.manifest.id}: ${message}`,
-          ),
-        );
+          this.sandboxReady = null;
+          resolve(notice);
+        },
+        reject: (error) => {
+          clearTimeout(timeout);
+          this.sandboxReady = null;
+          reject(error);
+        },
       };
-
-      this.worker!.addEventListener("message", handler, { once: true });
-      this.worker!.addEventListener("error", errorHandler, { once: true });
-      this.worker!.addEventListener("messageerror", errorHandler, { once: true });
     });
 
+    const protocolVersion = this.negotiateProtocol(notice);
+
     // Initialize the plugin
-    await this.initializePlugin();
-    this.isReady = true;
-    this.readyResolve();
+    const result = await this.initializePlugin(protocolVersion);
+    this.pluginCapabilities = this.readCapabilities(
+      notice,
+      protocolVersion,
+      result,
+    );
+  }
+
+  /**
+   * Pick the newest protocol version both sides speak
+   * Sandboxes from before the handshake announce no version and speak v1.
+   */
+  private negotiateProtocol(notice: RPCSandboxReady): number {
+    const sandboxMax = notice.protocolVersion ?? 1;
+    const sandboxMin = notice.minProtocolVersion ?? sandboxMax;
+    const version = Math.min(sandboxMax, RPC_PROTOCOL_VERSION);
+
+    if (version < Math.max(sandboxMin, MIN_RPC_PROTOCOL_VERSION)) {
+      throw createBridgeError(
+        `Plugin ${this.manifest.id} sandbox speaks RPC protocol ` +
+          `v${sandboxMin}-v${sandboxMax}, but this core supports ` +
+          `v${MIN_RPC_PROTOCOL_VERSION}-v${RPC_PROTOCOL_VERSION}`,
+        "PROTOCOL_MISMATCH",
+      );
+    }
+    return version;
+  }
+
+  /**
+   * Build the plugin's capabilities from the INIT response,
+   * filling in what v1 sandboxes don't report. Syscalls this core can't
+   * serve don't stop the plugin; they fail when called.
+   */
+  private readCapabilities(
+    notice: RPCSandboxReady,
+    protocolVersion: number,
+    result: unknown,
+  ): PluginCapabilities {
+    const reported =
+      protocolVersion >= 2 ? (result as Partial<RPCCapabilities>) : {};
+    const syscalls = reported?.syscalls ?? V1_SYSCALLS;
+
+    const unsupported = Object.entries(syscalls)
+      .filter(([name, version]) => (PROVIDED_SYSCALLS[name] ?? 0) < version)
+      .map(([name, version]) => `${name} v${version}`);
+    if (unsupported.length > 0) {
+      console.warn(
+        `Plugin ${this.manifest.id} sandbox uses syscalls this core ` +
+          `does not provide, which will fail: ${unsupported.join(", ")}`,
+      );
+    }
+
+    return {
+      protocolVersion,
+      sdkVersion: notice.sdkVersion,
+      hooks: Array.isArray(reported?.hooks) ? reported.hooks : null,
+      syscalls,
+      unsupportedSyscalls: unsupported,
+    };
   }
 
   /**
    * Initialize the plugin in the worker
    */
-  private async initializePlugin(): Promise<void> {
+  private async initializePlugin(protocolVersion: number): Promise<unknown> {
     const initMessage = {
       id: crypto.randomUUID(),
       type: "INIT",
       entryPath: this.manifest.entryPath,
       pluginPath: this.manifest.pluginPath,
-      config: this.manifest.config,
+      config: this.pluginConfig,
       permissions: this.manifest.permissions,
       pluginId: this.manifest.id,
+      tableNames: this.manifest.tableNames,
+      usageReportIntervalMs:
+        this.manifest.limits?.maxHeapMb && !this.channel?.residentBytes
+          ? USAGE_REPORT_INTERVAL_MS
+          : undefined,
+      protocolVersion,
     };
 
     return new Promise((resolve, reject) => {
       const timeout = setTimeout(() => {
-        this.worker?.removeEventListener("message", handler);
+        this.pendingRequests.delete(initMessage.id);
         reject(
           new Error(`Plugin ${this.manifest.id} initialization timed out`),
         );
       }, this.config.hookTimeout);
 
-      const handler = (event: MessageEvent<RPCResponse>) => {
-        if (event.data?.id !== initMessage.id) return;
-        clearTimeout(timeout);
-        this.worker?.removeEventListener("message", handler);
-        if (event.data.success) {
-          resolve();
-        } else {
-          reject(
-            new Error(`Plugin init failed: ${event.data.error?.message}`),
-          );
-        }
-      };
-
-      this.worker!.addEventListener("message", handler);
-      this.worker!.postMessage(initMessage);
+      this.pendingRequests.set(initMessage.id, {
+        resolve,
+        reject: (error) =>
+          reject(new Error(`Plugin init failed: ${error.message}`)),
+        timeout,
+      });
+      this.channel!.postMessage(initMessage);
     });
   }
 
@@ -177,20 +387,71 @@ export class PluginWorkerBridge {
   async callHook<T = unknown>(
     method: string,
     payload: unknown,
+    context?: HookContext,
   ): Promise<T | undefined> {
     await this.readyPromise;
 
-    if (!this.worker) {
-      throw new Error(`Plugin ${this.manifest.id} worker not started`);
+    if (!this.channel) {
+      throw createBridgeError(
+        `Plugin ${this.manifest.id} worker not started`,
+        "WORKER_UNAVAILABLE",
+      );
+    }
+
+    // The sandbox would answer undefined anyway; skip the round trip
+    const hooks = this.pluginCapabilities?.hooks;
+    if (hooks && !hooks.includes(method)) return undefined;
+
+    const { maxConcurrentHooks, hookBudgetMs } = this.manifest.limits ?? {};
+
+    // Shed load instead of restarting: dropping the calls already in
+    // flight wouldn't help a plugin that is merely slow
+    if (
+      maxConcurrentHooks &&
+      this.pendingRequests.size >= maxConcurrentHooks
+    ) {
+      this.observer?.onResourceViolation?.({
+        pluginId: this.manifest.id,
+        limit: "maxConcurrentHooks",
+        allowed: maxConcurrentHooks,
+        observed: this.pendingRequests.size + 1,
+        method,
+        at: Date.now(),
+      });
+      throw createBridgeError(
+        `Plugin ${this.manifest.id} has too many hook calls in flight`,
+        "CONCURRENCY_LIMIT",
+      );
     }
 
     const request = createHookRequest(method, payload);
 
-    return new Promise((resolve, reject) => {
+    // Unlike the hook timeout, the budget outlives the caller giving up:
+    // a hook still running when it expires gets its worker terminated
+    if (hookBudgetMs) {
+      const startedAt = Date.now();
+      this.hookBudgets.set(
+        request.id,
+        setTimeout(() => {
+          this.hookBudgets.delete(request.id);
+          this.exceedLimit({
+            limit: "hookBudgetMs",
+            allowed: hookBudgetMs,
+            observed: Date.now() - startedAt,
+            method,
+          });
+        }, hookBudgetMs),
+      );
+    }
+
+    const response = new Promise<T | undefined>((resolve, reject) => {
       const timeout = setTimeout(() => {
         this.pendingRequests.delete(request.id);
         reject(
-          new Error(`Plugin ${this.manifest.id} timed out on hook ${method}`),
+          createBridgeError(
+            `Plugin ${this.manifest.id} timed out on hook ${method}`,
+            "HOOK_TIMEOUT",
+          ),
         );
       }, this.config.hookTimeout);
 
@@ -198,29 +459,140 @@ export class PluginWorkerBridge {
         resolve: resolve as (value: unknown) => void,
         reject,
         timeout,
+        context,
       });
 
-      this.worker!.postMessage(request);
+      this.channel!.postMessage(request);
     });
+
+    try {
+      const result = await response;
+      this.observer?.onHookSuccess?.(this.manifest.id, method);
+      return result;
+    } catch (error) {
+      this.observer?.onHookFailure?.(this.manifest.id, method, error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Handle the worker exiting without being stopped
+   */
+  private handleWorkerExit(channel: PluginChannel, reason?: string): void {
+    // Ignore workers we already replaced or terminated on purpose
+    if (channel !== this.channel || this.isStopped) return;
+
+    const wasReady = this.isReady;
+    const detail = reason ?? this.lastWorkerError;
+    const error = createBridgeError(
+      `Plugin ${this.manifest.id} worker exited unexpectedly` +
+        (detail ? `: ${detail}` : ""),
+      "WORKER_CRASHED",
+    );
+
+    this.channel = null;
+    this.isReady = false;
+    this.sandboxReady?.reject(error);
+    this.rejectPending(error);
+
+    // Startup failures are reported to the caller of start()
+    if (wasReady) {
+      this.observer?.onCrash?.(this, error);
+    }
+  }
+
+  /**
+   * Terminate a worker that went over a resource limit
+   * The observer treats it like a crash and restarts the plugin.
+   */
+  private exceedLimit(
+    usage: Omit<ResourceViolation, "pluginId" | "at">,
+  ): void {
+    const channel = this.channel;
+    if (!channel || !this.isReady || this.isStopped) return;
+
+    const violation: ResourceViolation = {
+      ...usage,
+      pluginId: this.manifest.id,
+      at: Date.now(),
+    };
+    const error = createBridgeError(
+      `Plugin ${this.manifest.id} exceeded its ${usage.limit} limit ` +
+        `(used ${usage.observed}, allowed ${usage.allowed})` +
+        (usage.method ? ` during ${usage.method}` : ""),
+      "RESOURCE_LIMIT_EXCEEDED",
+    );
+
+    this.channel = null;
+    this.isReady = false;
+    this.rejectPending(error);
+    channel.terminate();
+
+    this.observer?.onResourceViolation?.(violation);
+    this.observer?.onCrash?.(this, error);
+  }
+
+  /**
+   * Check the sandbox's memory against the plugin's heap limit
+   */
+  private checkHeapUsage(bytes: number): void {
+    const maxHeapMb = this.manifest.limits?.maxHeapMb;
+    if (!maxHeapMb) return;
+
+    const heapMb = Math.ceil(bytes / (1024 * 1024));
+    if (heapMb > maxHeapMb) {
+      this.exceedLimit({
+        limit: "maxHeapMb",
+        allowed: maxHeapMb,
+        observed: heapMb,
+      });
+    }
+  }
+
+  /**
+   * Reject every in-flight hook call
+   */
+  private rejectPending(error: Error): void {
+    for (const budget of this.hookBudgets.values()) {
+      clearTimeout(budget);
+    }
+    this.hookBudgets.clear();
+
+    for (const pending of this.pendingRequests.values()) {
+      clearTimeout(pending.timeout);
+      pending.reject(error);
+    }
+    this.pendingRequests.clear();
   }
 
   /**
    * Handle messages from the worker
    */
-  private async handleWorkerMessage(event: MessageEvent<RPCMessage>) {
-    const msg = event.data;
+  private async handleWorkerMessage(
+    msg: RPCMessage | ResourceUsageReport | RPCSandboxReady,
+  ) {
+    if (msg.type === "SANDBOX_READY") {
+      this.sandboxReady?.resolve(msg);
+      return;
+    }
+
+    if (msg.type === "RESOURCE_USAGE") {
+      if (!this.channel?.residentBytes) this.checkHeapUsage(msg.heapBytes);
+      return;
+    }
 
     // Handle responses to our hook calls
     if (msg.type === "RESPONSE" || msg.type === "ERROR") {
+      clearTimeout(this.hookBudgets.get(msg.id));
+      this.hookBudgets.delete(msg.id);
+
       const pending = this.pendingRequests.get(msg.id);
       if (pending) {
         this.pendingRequests.delete(msg.id);
         clearTimeout(pending.timeout);
 
         if (msg.type === "ERROR") {
-          const error = new Error(msg.error.message);
-          (error as any).code = msg.error.code;
-          pending.reject(error);
+          pending.reject(createBridgeError(msg.error.message, msg.error.code));
         } else {
           pending.resolve(msg.result);
         }
@@ -236,19 +608,23 @@ export class PluginWorkerBridge {
   }
 
   /**
-   * Handle a system call from the plugin
+   * Handle a system call from the plugin, in the context of the hook call
+   * it was made during, as long as that call hasn't finished or timed out
    */
   private async handleSysCall(request: RPCSysCallRequest): Promise<void> {
     try {
+      this.checkSysCallSupported(request.method);
+      const context = this.hookContext(request.hookId);
       const result = await this.sysCallHandler(
         request.method,
         request.payload,
         this.manifest,
+        context,
       );
-      this.worker!.postMessage(createSuccessResponse(request.id, result));
+      this.channel?.postMessage(createSuccessResponse(request.id, result));
     } catch (error) {
       const err = error as Error;
-      this.worker!.postMessage(
+      this.channel?.postMessage(
         createErrorResponse(
           request.id,
           (err as any).code || "SYS_CALL_ERROR",
@@ -259,11 +635,84 @@ export class PluginWorkerBridge {
     }
   }
 
+  /**
+   * Context of the hook call a syscall names. The sandbox only names the
+   * call; its context stays in core, and only calls this worker still has
+   * in flight can be named, so a plugin can't replay the ID of a finished
+   * request or of one sent to another worker.
+   */
+  private hookContext(hookId?: string): HookContext | undefined {
+    if (!hookId) return undefined;
+    const pending = this.pendingRequests.get(hookId);
+    if (!pending) {
+      throw createBridgeError(
+        `Hook call ${hookId} is not in flight for plugin ${this.manifest.id}`,
+        "HOOK_NOT_IN_FLIGHT",
+      );
+    }
+    return pending.context;
+  }
+
+  /**
+   * Reject a syscall the sandbox speaks a newer version of than this core
+   */
+  private checkSysCallSupported(method: string): void {
+    const version = this.pluginCapabilities?.syscalls[method];
+    const provided = PROVIDED_SYSCALLS[method] ?? 0;
+    if (version !== undefined && provided < version) {
+      throw createBridgeError(
+        `Syscall ${method} v${version} is unsupported by core ` +
+          (provided ? `(it provides v${provided})` : "(not provided)"),
+        "UNSUPPORTED_SYSCALL",
+      );
+    }
+  }
+
+  /**
+   * Hand the plugin new configuration; a restarted worker starts with it too
+   */
+  async updateConfig(config: Record<string, unknown>): Promise<void> {
+    const previous = this.pluginConfig;
+    this.pluginConfig = config;
+    await this.callHook("onConfigChange", { config, previous });
+  }
+
+  /**
+   * Wait for in-flight hook calls to settle
+   * Bounded by the hook timeout, since pending calls expire on their own.
+   */
+  async drain(): Promise<void> {
+    const deadline = Date.now() + this.config.hookTimeout;
+    while (this.pendingRequests.size > 0 && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, 25));
+    }
+  }
+
+  /**
+   * Replace a crashed or stuck worker with a fresh one
+   */
+  async restart(): Promise<void> {
+    if (this.isStopped) {
+      throw new Error(`Plugin ${this.manifest.id} bridge is stopped`);
+    }
+
+    const previous = this.channel;
+    this.channel = null;
+    this.rejectPending(
+      createBridgeError("Worker restarting", "WORKER_UNAVAILABLE"),
+    );
+    previous?.terminate();
+
+    this.resetReady();
+    await this.start();
+  }
+
   /**
    * Stop the worker
    */
   async stop(): Promise<void> {
-    if (!this.worker) return;
+    this.isStopped = true;
+    if (!this.channel) return;
 
     // Call onUnload hook
     try {
@@ -273,22 +722,32 @@ export class PluginWorkerBridge {
     }
 
     // Clear pending requests
-    for (const [id, pending] of this.pendingRequests) {
-      clearTimeout(pending.timeout);
-      pending.reject(new Error("Worker stopped"));
-    }
-    this.pendingRequests.clear();
+    this.rejectPending(new Error("Worker stopped"));
 
     // Terminate worker
-    this.worker.terminate();
-    this.worker = null;
+    this.channel?.terminate();
+    this.channel = null;
     this.isReady = false;
   }
 
+  /**
+   * What the plugin reported during the handshake (null until started)
+   */
+  get capabilities(): PluginCapabilities | null {
+    return this.pluginCapabilities;
+  }
+
   /**
    * Check if the worker is ready
    */
   get ready(): boolean {
     return this.isReady;
   }
+
+  /**
+   * Number of hook calls waiting for the worker to answer
+   */
+  get inFlight(): number {
+    return this.pendingRequests.size;
+  }
 }
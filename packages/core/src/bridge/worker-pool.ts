@@ -0,0 +1,117 @@
+/**
+ * Plugin Worker Pool
+ * Runs several sandboxes of a stateless plugin and spreads hook calls
+ * across them, so CPU-heavy hooks don't queue behind a single thread
+ */
+
+import type { LoadedPluginManifest } from "@workspace/plugin-sdk";
+import type {
+  HookContext,
+  PluginBridge,
+  PluginCapabilities,
+} from "./types.js";
+import type { PluginWorkerBridge } from "./worker-bridge.js";
+
+/**
+ * PluginWorkerPool
+ * Each worker is a full bridge with its own resource limits, and the
+ * supervisor restarts crashed workers individually.
+ */
+export class PluginWorkerPool implements PluginBridge {
+  private readonly workers: PluginWorkerBridge[];
+  /** Where the next search for an idle worker starts, for round-robin ties */
+  private cursor = 0;
+
+  constructor(
+    public readonly manifest: LoadedPluginManifest,
+    size: number,
+    createWorker: () => PluginWorkerBridge,
+  ) {
+    this.workers = Array.from({ length: size }, createWorker);
+  }
+
+  /**
+   * Start every worker; the pool only comes up if all of them do
+   */
+  async start(): Promise<void> {
+    const results = await Promise.allSettled(
+      this.workers.map((worker) => worker.start()),
+    );
+
+    const failed = results.find(
+      (result): result is PromiseRejectedResult => result.status === "rejected",
+    );
+    if (failed) {
+      await Promise.all(this.workers.map((worker) => worker.stop()));
+      throw failed.reason;
+    }
+  }
+
+  /**
+   * Call a hook on the least busy ready worker
+   */
+  async callHook<T = unknown>(
+    method: string,
+    payload: unknown,
+    context?: HookContext,
+  ): Promise<T | undefined> {
+    return this.pickWorker().callHook<T>(method, payload, context);
+  }
+
+  /**
+   * Hand every worker the new configuration
+   */
+  async updateConfig(config: Record<string, unknown>): Promise<void> {
+    await Promise.all(this.workers.map((worker) => worker.updateConfig(config)));
+  }
+
+  private pickWorker(): PluginWorkerBridge {
+    const count = this.workers.length;
+    let best: PluginWorkerBridge | undefined;
+
+    for (let i = 0; i < count; i++) {
+      const worker = this.workers[(this.cursor + i) % count]!;
+      if (!worker.ready) continue;
+      if (!best || worker.inFlight < best.inFlight) best = worker;
+    }
+    this.cursor = (this.cursor + 1) % count;
+
+    // With every worker down, let one of them report why
+    return best ?? this.workers[0]!;
+  }
+
+  /**
+   * Wait for in-flight hook calls on every worker to settle
+   */
+  async drain(): Promise<void> {
+    await Promise.all(this.workers.map((worker) => worker.drain()));
+  }
+
+  /**
+   * Stop every worker
+   */
+  async stop(): Promise<void> {
+    await Promise.all(this.workers.map((worker) => worker.stop()));
+  }
+
+  /**
+   * What the plugin reported during the handshake (null until started)
+   */
+  get capabilities(): PluginCapabilities | null {
+    return this.workers[0]!.capabilities;
+  }
+
+  /**
+   * Check if any worker is ready
+   */
+  get ready(): boolean {
+    return this.workers.some((worker) => worker.ready);
+  }
+
+  /**
+   * Number of workers in the pool
+   */
+  get size(): number {
+    return this.workers.length;
+  }
+}
@@ -6,11 +6,17 @@
 
 // Utilities
 export * from "./lib/utils.js";
+export { FRONTCLAW_VERSION } from "./version.js";
 
 // Orchestrator
 export {
   Orchestrator,
   type OrchestratorConfig,
+  type PermissionReview,
+  type PluginLLMUsage,
+  type PluginSecretStatus,
+  type PluginSettingsUpdate,
+  type PluginUninstallOptions,
   type PipelineResult,
 } from "./orchestrator/index.js";
 
@@ -19,9 +25,27 @@ export {
   createSysCallHandler,
   PermissionDeniedError,
   PermissionGuard,
+  PluginProcessBridge,
+  PluginSupervisor,
+  PROVIDED_SYSCALLS,
   PluginWorkerBridge,
+  PluginWorkerPool,
   type BridgeConfig,
+  type PluginBridge,
+  type PluginChannel,
+  type PluginChannelEvents,
+  type PluginCapabilities,
+  type ProcessIsolation,
+  type BridgeObserver,
+  type PluginHealth,
+  type PluginHealthStatus,
+  type ResourceViolation,
+  type SupervisorConfig,
   type DBAdapter,
+  type DBQueryOptions,
+  type DBReadScope,
+  type DBWriteOptions,
+  type HookContext,
   type SysCallDependencies,
   type SysCallHandler,
   type SystemLogger,
@@ -32,8 +56,64 @@ export {
   PluginLoader,
   PluginLoadError,
   type LoaderConfig,
+  type LoadOrderResult,
+  validatePluginConfig,
+  type ConfigIssue,
+  type ConfigValidationResult,
+  applyPermissionPolicy,
+  loadPermissionPolicy,
+  PermissionPolicySchema,
+  type PermissionPolicy,
+  diffPermissions,
+  hashPermissions,
+  StalePermissionReviewError,
+  type PermissionChange,
+  FileApprovalStore,
+  InMemoryApprovalStore,
+  type ApprovedPermissions,
+  type PermissionApprovalStore,
+  FileSettingsStore,
+  InMemorySettingsStore,
+  type PluginSettings,
+  type PluginSettingsStore,
 } from "./loader/index.js";
 
+// Registry
+export {
+  computeIntegrity,
+  LocalPluginRegistry,
+  packPluginDirectory,
+  PluginPackageError,
+  signPackage,
+  verifyPackage,
+  type PackageDigest,
+  type PackageTrustConfig,
+  type PluginPackageErrorCode,
+  type PublishKey,
+  type RegistryConfig,
+  type RegistryEntry,
+} from "./registry/index.js";
+
+// Scheduler
+export {
+  nextCronTime,
+  parseCron,
+  PluginScheduler,
+  type CronSchedule,
+  type JobRun,
+  type JobRunner,
+  type JobStatus,
+} from "./scheduler/index.js";
+
+// Secrets
+export {
+  EncryptedFileSecretStore,
+  EnvSecretStore,
+  LayeredSecretStore,
+  secretEnvName,
+  type SecretStore,
+} from "./secrets/index.js";
+
 // AI
 export {
   AIClient,
@@ -45,6 +125,7 @@ export {
   type ChatMessage,
   type EmbeddingOptions,
   type EmbeddingResult,
+  type JSONSchemaOutputOptions,
   type StreamChunk,
   type StructuredOutputOptions,
   type ToolCall,
@@ -57,6 +138,7 @@ export {
   InMemoryService,
   RedisMemoryService,
   SecureMemoryService,
+  type EncryptionKeys,
   type MemoryService,
   type RedisMemoryOptions,
   type SecureMemoryOptions,
@@ -0,0 +1,92 @@
+/**
+ * Permission Approval Store
+ * Persists the last permission set an admin approved for each plugin
+ */
+
+import type { Permissions } from "@workspace/plugin-sdk";
+import fs from "node:fs";
+import path from "node:path";
+
+/** Permissions approved for a plugin */
+export interface ApprovedPermissions {
+  /** Plugin version the approval was given for */
+  version: string;
+  permissions: Permissions;
+  approvedAt: string;
+}
+
+export interface PermissionApprovalStore {
+  get(pluginId: string): Promise<ApprovedPermissions | null>;
+  set(pluginId: string, approval: ApprovedPermissions): Promise<void>;
+  delete(pluginId: string): Promise<void>;
+}
+
+/**
+ * Keeps approvals for the lifetime of the process only
+ */
+export class InMemoryApprovalStore implements PermissionApprovalStore {
+  private approvals = new Map<string, ApprovedPermissions>();
+
+  async get(pluginId: string): Promise<ApprovedPermissions | null> {
+    return this.approvals.get(pluginId) ?? null;
+  }
+
+  async set(pluginId: string, approval: ApprovedPermissions): Promise<void> {
+    this.approvals.set(pluginId, approval);
+  }
+
+  async delete(pluginId: string): Promise<void> {
+    this.approvals.delete(pluginId);
+  }
+}
+
+/**
+ * Keeps approvals in a JSON file, keyed by plugin ID
+ */
+export class FileApprovalStore implements PermissionApprovalStore {
+  /** Writes run one at a time so concurrent approvals don't drop each other */
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  private read(): Record<string, ApprovedPermissions> {
+    if (!fs.existsSync(this.filePath)) return {};
+    return JSON.parse(fs.readFileSync(this.filePath, "utf-8"));
+  }
+
+  async get(pluginId: string): Promise<ApprovedPermissions | null> {
+    await this.writeQueue;
+    return this.read()[pluginId] ?? null;
+  }
+
+  async set(pluginId: string, approval: ApprovedPermissions): Promise<void> {
+    return this.update((approvals) => ({ ...approvals, [pluginId]: approval }));
+  }
+
+  async delete(pluginId: string): Promise<void> {
+    return this.update((approvals) => {
+      delete approvals[pluginId];
+      return approvals;
+    });
+  }
+
+  private update(
+    change: (
+      approvals: Record<string, ApprovedPermissions>,
+    ) => Record<string, ApprovedPermissions>,
+  ): Promise<void> {
+    const write = this.writeQueue.then(() => {
+      const approvals = change(this.read());
+
+      // Write to a temporary file first so a crash can't truncate approvals
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify(approvals, null, 2), {
+        mode: 0o600,
+      });
+      fs.renameSync(tempPath, this.filePath);
+    });
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+}
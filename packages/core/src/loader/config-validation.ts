@@ -0,0 +1,66 @@
+/**
+ * Plugin Config Validation
+ * Validates plugin configuration against the manifest's JSON Schema
+ */
+
+import { z } from "zod";
+
+/** A single config validation problem */
+export interface ConfigIssue {
+  /** Location of the offending value (e.g. "markdown_rules.allow_html") */
+  path: string;
+  message: string;
+}
+
+/** Config validation result */
+export type ConfigValidationResult =
+  | { success: true; config: Record<string, unknown> }
+  | { success: false; issues: ConfigIssue[] };
+
+function formatIssuePath(path: PropertyKey[]): string {
+  return path.reduce<string>((acc, segment) => {
+    if (typeof segment === "number") return `${acc}[${segment}]`;
+    return acc ? `${acc}.${String(segment)}` : String(segment);
+  }, "");
+}
+
+/**
+ * Validate config against a JSON Schema, filling in schema defaults.
+ * Without a schema the config is accepted as-is.
+ */
+export function validatePluginConfig(
+  configSchema: Record<string, unknown> | undefined,
+  config: Record<string, unknown>,
+): ConfigValidationResult {
+  if (!configSchema) {
+    return { success: true, config };
+  }
+
+  let schema: z.ZodType;
+  try {
+    schema = z.fromJSONSchema(configSchema);
+  } catch (error) {
+    return {
+      success: false,
+      issues: [
+        {
+          path: "configSchema",
+          message: `Unsupported JSON Schema: ${(error as Error).message}`,
+        },
+      ],
+    };
+  }
+
+  const result = schema.safeParse(config);
+  if (!result.success) {
+    return {
+      success: false,
+      issues: result.error.issues.map((issue) => ({
+        path: formatIssuePath(issue.path) || "(root)",
+        message: issue.message,
+      })),
+    };
+  }
+
+  return { success: true, config: result.data as Record<string, unknown> };
+}
@@ -7,4 +7,35 @@ export {
   PluginLoader,
   PluginLoadError,
   type LoaderConfig,
+  type LoadOrderResult,
 } from "./plugin-loader.js";
+export {
+  validatePluginConfig,
+  type ConfigIssue,
+  type ConfigValidationResult,
+} from "./config-validation.js";
+export {
+  applyPermissionPolicy,
+  loadPermissionPolicy,
+  PermissionPolicySchema,
+  type PermissionPolicy,
+} from "./permission-policy.js";
+export {
+  diffPermissions,
+  hashPermissions,
+  StalePermissionReviewError,
+  type PermissionChange,
+} from "./permission-diff.js";
+export { sortByDependencies, type DependencyOrder } from "./load-order.js";
+export {
+  FileApprovalStore,
+  InMemoryApprovalStore,
+  type ApprovedPermissions,
+  type PermissionApprovalStore,
+} from "./approval-store.js";
+export {
+  FileSettingsStore,
+  InMemorySettingsStore,
+  type PluginSettings,
+  type PluginSettingsStore,
+} from "./settings-store.js";
@@ -0,0 +1,51 @@
+/**
+ * Load Order
+ * Orders plugins so each comes after the plugins it depends on
+ */
+
+import type { LoadedPluginManifest } from "@workspace/plugin-sdk";
+
+/** Plugins in dependency order, and those that couldn't be placed */
+export interface DependencyOrder {
+  sorted: LoadedPluginManifest[];
+  /** Plugins on a dependency cycle or depending on one, with their unplaced dependencies */
+  unsorted: Map<string, Set<string>>;
+}
+
+/**
+ * Topologically sort plugins by their dependencies (Kahn's algorithm).
+ * Among the plugins whose dependencies are all placed, the one with the
+ * lowest priority goes first, then the lowest ID, so the same plugins
+ * always come out in the same order whatever order they came in.
+ * Dependencies on plugins outside the list are ignored.
+ */
+export function sortByDependencies(
+  manifests: LoadedPluginManifest[],
+): DependencyOrder {
+  const byId = new Map(manifests.map((m) => [m.id, m]));
+  const unsorted = new Map(
+    manifests.map((m) => [
+      m.id,
+      new Set(Object.keys(m.dependencies).filter((id) => byId.has(id))),
+    ]),
+  );
+  const sorted: LoadedPluginManifest[] = [];
+
+  while (unsorted.size > 0) {
+    const ready = Array.from(unsorted.entries())
+      .filter(([, deps]) => deps.size === 0)
+      .map(([id]) => byId.get(id)!)
+      .sort((a, b) => a.priority - b.priority || a.id.localeCompare(b.id));
+
+    const next = ready[0];
+    if (!next) break;
+
+    sorted.push(next);
+    unsorted.delete(next.id);
+    for (const deps of unsorted.values()) {
+      deps.delete(next.id);
+    }
+  }
+
+  return { sorted, unsorted };
+}
@@ -0,0 +1,251 @@
+/**
+ * Permission Diff
+ * Finds the permissions a plugin requests beyond what an admin approved
+ */
+
+import type { Permissions } from "@workspace/plugin-sdk";
+import crypto from "node:crypto";
+import { domainCovers } from "./permission-policy.js";
+
+/** A permission requested beyond the approved set */
+export interface PermissionChange {
+  /** Permission path (e.g. "network.allow_all") */
+  permission: string;
+  approved: unknown;
+  requested: unknown;
+}
+
+/** An approval for permissions other than the ones the admin reviewed */
+export class StalePermissionReviewError extends Error {
+  constructor(pluginId: string) {
+    super(
+      `Permissions of plugin ${pluginId} changed since they were reviewed; ` +
+        "review them again",
+    );
+    this.name = "StalePermissionReviewError";
+  }
+}
+
+const SECTIONS = [
+  "db",
+  "network",
+  "llm",
+  "api",
+  "socket",
+  "events",
+  "skills",
+  "memory",
+  "log",
+] as const;
+
+const LLM_FLAGS = [
+  "can_intercept_task",
+  "can_modify_prompt",
+  "can_modify_system_message",
+  "can_modify_response",
+  "can_generate",
+  "can_embed",
+] as const;
+
+/**
+ * Entries in requested that approved doesn't grant, where "*" grants all
+ */
+function addedEntries(
+  approved: string[] = [],
+  requested: string[] = [],
+): string[] {
+  if (approved.includes("*")) return [];
+  return requested.filter((entry) => !approved.includes(entry));
+}
+
+/**
+ * Whether a list that is unrestricted when empty grows
+ */
+function filterWidens(
+  approved: string[] = [],
+  requested: string[] = [],
+): boolean {
+  if (approved.length === 0 || approved.includes("*")) return false;
+  if (requested.length === 0 || requested.includes("*")) return true;
+  return addedEntries(approved, requested).length > 0;
+}
+
+/**
+ * List every way the requested permissions exceed the approved ones.
+ * Narrower or equal permissions produce no changes.
+ */
+export function diffPermissions(
+  approved: Permissions,
+  requested: Permissions,
+): PermissionChange[] {
+  const changes: PermissionChange[] = [];
+  const expand = (permission: string, from: unknown, to: unknown) =>
+    changes.push({ permission, approved: from, requested: to });
+
+  for (const section of SECTIONS) {
+    if (requested[section] && !approved[section]) {
+      expand(section, undefined, requested[section]);
+    }
+  }
+
+  const { db, network, llm, api, socket, events, memory, log } = requested;
+
+  if (db && approved.db) {
+    if (addedEntries(approved.db.tables, db.tables).length > 0) {
+      expand("db.tables", approved.db.tables, db.tables);
+    }
+    if (db.access === "read-write" && approved.db.access === "read-only") {
+      expand("db.access", approved.db.access, db.access);
+    }
+    const columnsWiden = Object.entries(approved.db.columns ?? {}).some(
+      ([table, columns]) =>
+        !db.columns?.[table] ||
+        addedEntries(columns, db.columns[table]).length > 0,
+    );
+    if (columnsWiden) {
+      expand("db.columns", approved.db.columns, db.columns);
+    }
+    // Any change to an approved filter may let more rows through
+    const filtersChange = Object.entries(approved.db.row_filters ?? {}).some(
+      ([table, filter]) => db.row_filters?.[table] !== filter,
+    );
+    if (filtersChange) {
+      expand("db.row_filters", approved.db.row_filters, db.row_filters);
+    }
+  }
+
+  if (network && approved.network) {
+    if (network.allow_all && !approved.network.allow_all) {
+      expand("network.allow_all", false, true);
+    }
+    const domains = approved.network.allow_all
+      ? []
+      : network.allowed_domains.filter(
+          (domain) =>
+            !approved.network!.allowed_domains.some((pattern) =>
+              domainCovers(pattern, domain),
+            ),
+        );
+    if (domains.length > 0) {
+      expand(
+        "network.allowed_domains",
+        approved.network.allowed_domains,
+        network.allowed_domains,
+      );
+    }
+    const unblocked = (approved.network.denied_domains ?? []).filter(
+      (domain) => !network.denied_domains?.includes(domain),
+    );
+    if (unblocked.length > 0) {
+      expand(
+        "network.denied_domains",
+        approved.network.denied_domains,
+        network.denied_domains,
+      );
+    }
+  }
+
+  if (llm && approved.llm) {
+    for (const flag of LLM_FLAGS) {
+      if (llm[flag] && !approved.llm[flag]) {
+        expand(`llm.${flag}`, false, true);
+      }
+    }
+    const approvedMax = approved.llm.max_tokens_per_request;
+    if (
+      approvedMax !== undefined &&
+      (llm.max_tokens_per_request ?? Infinity) > approvedMax
+    ) {
+      expand(
+        "llm.max_tokens_per_request",
+        approvedMax,
+        llm.max_tokens_per_request,
+      );
+    }
+  }
+
+  if (api && approved.api) {
+    if (addedEntries(approved.api.routes, api.routes).length > 0) {
+      expand("api.routes", approved.api.routes, api.routes);
+    }
+    if (filterWidens(approved.api.methods, api.methods)) {
+      expand("api.methods", approved.api.methods, api.methods);
+    }
+  }
+
+  if (socket && approved.socket) {
+    for (const flag of ["can_intercept", "can_emit"] as const) {
+      if (socket[flag] && !approved.socket[flag]) {
+        expand(`socket.${flag}`, false, true);
+      }
+    }
+    if (filterWidens(approved.socket.events, socket.events)) {
+      expand("socket.events", approved.socket.events, socket.events);
+    }
+  }
+
+  if (events && approved.events) {
+    for (const access of ["publish", "subscribe"] as const) {
+      if (addedEntries(approved.events[access], events[access]).length > 0) {
+        expand(`events.${access}`, approved.events[access], events[access]);
+      }
+    }
+  }
+
+  if (requested.skills && approved.skills) {
+    if (addedEntries(approved.skills, requested.skills).length > 0) {
+      expand("skills", approved.skills, requested.skills);
+    }
+  }
+
+  if (memory && approved.memory) {
+    for (const access of ["read", "write"] as const) {
+      if (addedEntries(approved.memory[access], memory[access]).length > 0) {
+        expand(`memory.${access}`, approved.memory[access], memory[access]);
+      }
+    }
+  }
+
+  if (log && approved.log) {
+    if (log.enabled && !approved.log.enabled) {
+      expand("log.enabled", false, true);
+    }
+    if (addedEntries(approved.log.levels, log.levels).length > 0) {
+      expand("log.levels", approved.log.levels, log.levels);
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Sort object keys at every level, so equal permissions serialize the same
+ */
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(canonicalize);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [
+          key,
+          canonicalize((value as Record<string, unknown>)[key]),
+        ]),
+    );
+  }
+  return value;
+}
+
+/**
+ * Fingerprint a plugin version's permissions, so an approval can name the
+ * set the admin reviewed
+ */
+export function hashPermissions(
+  version: string,
+  permissions: Permissions,
+): string {
+  return crypto
+    .createHash("sha256")
+    .update(JSON.stringify(canonicalize({ version, permissions })))
+    .digest("hex");
+}
@@ -0,0 +1,273 @@
+/**
+ * Permission Policy
+ * Operator-owned rules that narrow the permissions plugins declare,
+ * so third-party plugins can be installed without editing their manifests
+ */
+
+import type { Permissions } from "@workspace/plugin-sdk";
+import fs from "node:fs";
+import { z } from "zod";
+
+/** Narrowing applied to a single plugin (or every plugin, under "*") */
+const PluginPolicySchema = z
+  .object({
+    /** Permission sections taken away entirely */
+    deny: z
+      .array(
+        z.enum([
+          "db",
+          "network",
+          "llm",
+          "api",
+          "socket",
+          "events",
+          "skills",
+          "memory",
+        ]),
+      )
+      .optional(),
+    network: z
+      .object({
+        /** Domains the plugin may reach at most */
+        allowed_domains: z.array(z.string()).optional(),
+        allow_all: z.literal(false).optional(),
+        denied_domains: z.array(z.string()).optional(),
+      })
+      .strict()
+      .optional(),
+    db: z
+      .object({
+        /** Tables the plugin may access at most */
+        tables: z.array(z.string()).optional(),
+        access: z.literal("read-only").optional(),
+        /** Columns the plugin may see at most, per table */
+        columns: z.record(z.string(), z.array(z.string())).optional(),
+        /** Conditions rows must also meet, per table */
+        row_filters: z.record(z.string(), z.string()).optional(),
+      })
+      .strict()
+      .optional(),
+    llm: z
+      .object({
+        can_intercept_task: z.literal(false).optional(),
+        can_modify_prompt: z.literal(false).optional(),
+        can_modify_system_message: z.literal(false).optional(),
+        can_modify_response: z.literal(false).optional(),
+        can_generate: z.literal(false).optional(),
+        can_embed: z.literal(false).optional(),
+        max_tokens_per_request: z.number().int().positive().optional(),
+      })
+      .strict()
+      .optional(),
+    socket: z
+      .object({
+        can_intercept: z.literal(false).optional(),
+        can_emit: z.literal(false).optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+/** Operator permission policy file */
+export const PermissionPolicySchema = z
+  .object({
+    /** Domains no plugin may fetch, even with network.allow_all */
+    denied_domains: z.array(z.string()).optional(),
+    /** Rules per plugin ID; rules under "*" apply to every plugin */
+    plugins: z.record(z.string(), PluginPolicySchema).optional(),
+  })
+  .strict();
+
+export type PermissionPolicy = z.infer<typeof PermissionPolicySchema>;
+type PluginPolicy = z.infer<typeof PluginPolicySchema>;
+
+/**
+ * Read and validate a policy file
+ */
+export function loadPermissionPolicy(policyPath: string): PermissionPolicy {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(policyPath, "utf-8"));
+  } catch (error) {
+    throw new Error(
+      `Failed to read permission policy '${policyPath}': ${(error as Error).message}`,
+    );
+  }
+
+  const result = PermissionPolicySchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join(".") || "<root>"}: ${issue.message}`)
+      .join(", ");
+    throw new Error(`Invalid permission policy '${policyPath}': ${issues}`);
+  }
+  return result.data;
+}
+
+/**
+ * Whether a domain pattern (e.g. "*.example.com") covers another one
+ */
+export function domainCovers(pattern: string, domain: string): boolean {
+  if (pattern === domain) return true;
+  if (!pattern.startsWith("*.")) return false;
+
+  const base = pattern.slice(2);
+  const bare = domain.startsWith("*.") ? domain.slice(2) : domain;
+  return bare === base || bare.endsWith(`.${base}`);
+}
+
+/**
+ * Domains allowed by both lists, keeping the narrower pattern of each pair
+ */
+function intersectDomains(declared: string[], allowed: string[]): string[] {
+  const kept = declared.filter((domain) =>
+    allowed.some((pattern) => domainCovers(pattern, domain)),
+  );
+  const narrowed = allowed.filter(
+    (domain) =>
+      !kept.includes(domain) &&
+      declared.some((pattern) => domainCovers(pattern, domain)),
+  );
+  return [...kept, ...narrowed];
+}
+
+/**
+ * Columns allowed by both declarations, per table
+ */
+function narrowColumns(
+  declared: Record<string, string[]> | undefined,
+  allowed: Record<string, string[]> | undefined,
+): Record<string, string[]> | undefined {
+  if (!allowed) return declared;
+  const result = { ...declared };
+  for (const [table, columns] of Object.entries(allowed)) {
+    result[table] = result[table]
+      ? result[table].filter((column) => columns.includes(column))
+      : columns;
+  }
+  return result;
+}
+
+/**
+ * Row filters requiring both the declared and the policy condition
+ */
+function combineRowFilters(
+  declared: Record<string, string> | undefined,
+  required: Record<string, string> | undefined,
+): Record<string, string> | undefined {
+  if (!required) return declared;
+  const result = { ...declared };
+  for (const [table, filter] of Object.entries(required)) {
+    result[table] = result[table]
+      ? `(${result[table]}) AND (${filter})`
+      : filter;
+  }
+  return result;
+}
+
+/**
+ * Tables allowed by both lists, where "*" allows any table
+ */
+function intersectTables(declared: string[], allowed: string[]): string[] {
+  if (allowed.includes("*")) return declared;
+  if (declared.includes("*")) return allowed;
+  return declared.filter((table) => allowed.includes(table));
+}
+
+/**
+ * Narrow permissions by a single plugin rule
+ */
+function applyPluginPolicy(
+  permissions: Permissions,
+  rule: PluginPolicy,
+): Permissions {
+  const result: Permissions = { ...permissions };
+
+  for (const section of rule.deny ?? []) {
+    delete result[section];
+  }
+
+  if (result.network && rule.network) {
+    const network = { ...result.network };
+    const { allowed_domains, allow_all, denied_domains } = rule.network;
+
+    if (allowed_domains) {
+      network.allowed_domains = network.allow_all
+        ? allowed_domains
+        : intersectDomains(network.allowed_domains, allowed_domains);
+      network.allow_all = false;
+    }
+    if (allow_all === false) network.allow_all = false;
+    if (denied_domains) {
+      network.denied_domains = [
+        ...(network.denied_domains ?? []),
+        ...denied_domains,
+      ];
+    }
+    result.network = network;
+  }
+
+  if (result.db && rule.db) {
+    result.db = {
+      tables: rule.db.tables
+        ? intersectTables(result.db.tables, rule.db.tables)
+        : result.db.tables,
+      access: rule.db.access ?? result.db.access,
+      columns: narrowColumns(result.db.columns, rule.db.columns),
+      row_filters: combineRowFilters(
+        result.db.row_filters,
+        rule.db.row_filters,
+      ),
+    };
+  }
+
+  if (result.llm && rule.llm) {
+    const { max_tokens_per_request, ...flags } = rule.llm;
+    const declaredMax = result.llm.max_tokens_per_request;
+    result.llm = {
+      ...result.llm,
+      ...flags,
+      max_tokens_per_request:
+        max_tokens_per_request === undefined
+          ? declaredMax
+          : Math.min(declaredMax ?? Infinity, max_tokens_per_request),
+    };
+  }
+
+  if (result.socket && rule.socket) {
+    result.socket = { ...result.socket, ...rule.socket };
+  }
+
+  return result;
+}
+
+/**
+ * Apply the operator policy on top of a plugin's declared permissions.
+ * Policies can only take permissions away, never grant new ones.
+ */
+export function applyPermissionPolicy(
+  pluginId: string,
+  permissions: Permissions,
+  policy: PermissionPolicy,
+): Permissions {
+  let result = permissions;
+  for (const rule of [policy.plugins?.["*"], policy.plugins?.[pluginId]]) {
+    if (rule) result = applyPluginPolicy(result, rule);
+  }
+
+  if (result.network && policy.denied_domains?.length) {
+    result = {
+      ...result,
+      network: {
+        ...result.network,
+        denied_domains: [
+          ...(result.network.denied_domains ?? []),
+          ...policy.denied_domains,
+        ],
+      },
+    };
+  }
+
+  return result;
+}
@@ -0,0 +1,103 @@
+import { describe, expect, test } from "bun:test";
+import type { LoadedPluginManifest } from "@workspace/plugin-sdk";
+import { PluginLoader } from "./plugin-loader.js";
+
+const loader = new PluginLoader({ pluginsDir: "/plugins" });
+
+/** The parts of a manifest load order depends on */
+function plugin(
+  id: string,
+  options: {
+    version?: string;
+    priority?: number;
+    dependencies?: Record<string, string>;
+  } = {},
+): LoadedPluginManifest {
+  return {
+    id,
+    version: options.version ?? "1.0.0",
+    priority: options.priority ?? 100,
+    dependencies: options.dependencies ?? {},
+    pluginPath: `/plugins/${id}`,
+  } as LoadedPluginManifest;
+}
+
+const ids = (manifests: LoadedPluginManifest[]) => manifests.map((m) => m.id);
+
+describe("resolveLoadOrder", () => {
+  test("loads dependencies first", () => {
+    const { plugins, errors } = loader.resolveLoadOrder([
+      plugin("app", { dependencies: { db: "^1.0.0", auth: "^1.0.0" } }),
+      plugin("auth", { dependencies: { db: ">=1.0.0" } }),
+      plugin("db"),
+    ]);
+    expect(ids(plugins)).toEqual(["db", "auth", "app"]);
+    expect(errors).toEqual([]);
+  });
+
+  test("breaks ties by priority, then ID", () => {
+    const { plugins } = loader.resolveLoadOrder([
+      plugin("c", { priority: 10 }),
+      plugin("b"),
+      plugin("a"),
+      plugin("late", { priority: 1, dependencies: { b: "*" } }),
+    ]);
+    expect(ids(plugins)).toEqual(["c", "a", "b", "late"]);
+  });
+
+  test("gives the same order whatever order plugins come in", () => {
+    const manifests = [
+      plugin("x", { dependencies: { z: "*" } }),
+      plugin("y"),
+      plugin("z", { priority: 50 }),
+    ];
+    const forward = loader.resolveLoadOrder(manifests).plugins;
+    const backward = loader.resolveLoadOrder([...manifests].reverse()).plugins;
+    expect(ids(forward)).toEqual(["z", "x", "y"]);
+    expect(ids(backward)).toEqual(ids(forward));
+  });
+
+  test("rejects plugins with missing dependencies, and their dependents", () => {
+    const { plugins, errors } = loader.resolveLoadOrder([
+      plugin("a", { dependencies: { missing: "^1.0.0" } }),
+      plugin("b", { dependencies: { a: "*" } }),
+      plugin("c"),
+    ]);
+    expect(ids(plugins)).toEqual(["c"]);
+    expect(errors.map((e) => e.pluginPath).sort()).toEqual([
+      "/plugins/a",
+      "/plugins/b",
+    ]);
+    expect(errors[0]!.message).toContain("Missing dependency 'missing'");
+  });
+
+  test("rejects dependencies outside the required version range", () => {
+    const { plugins, errors } = loader.resolveLoadOrder([
+      plugin("db", { version: "2.1.0" }),
+      plugin("app", { dependencies: { db: "^1.0.0" } }),
+    ]);
+    expect(ids(plugins)).toEqual(["db"]);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]!.message).toContain(
+      "Dependency 'db' version 2.1.0 does not satisfy '^1.0.0'",
+    );
+  });
+
+  test("reports cycles and the plugins depending on them", () => {
+    const { plugins, errors } = loader.resolveLoadOrder([
+      plugin("a", { dependencies: { b: "*" } }),
+      plugin("b", { dependencies: { a: "*" } }),
+      plugin("c", { dependencies: { a: "*" } }),
+      plugin("d"),
+    ]);
+    expect(ids(plugins)).toEqual(["d"]);
+    expect(errors.map((e) => e.pluginPath).sort()).toEqual([
+      "/plugins/a",
+      "/plugins/b",
+      "/plugins/c",
+    ]);
+    for (const error of errors) {
+      expect(error.message).toContain("Dependency cycle detected: ");
+    }
+  });
+});
@@ -4,18 +4,36 @@
  */
 
 import type {
+  PluginCompatibility,
   PluginManifest,
   LoadedPluginManifest,
+  ResourceLimits,
 } from "@workspace/plugin-sdk";
 import { PluginManifestSchema } from "@workspace/plugin-sdk";
 import path from "node:path";
 import fs from "node:fs";
+import { analyzeMigration, parseRowFilter } from "../bridge/sql-analyzer.js";
+import { INSTALL_RECORD_FILE } from "../registry/index.js";
+import { nextCronTime, parseCron } from "../scheduler/index.js";
+import { FRONTCLAW_VERSION } from "../version.js";
+import { sortByDependencies } from "./load-order.js";
+import { validatePluginConfig, type ConfigIssue } from "./config-validation.js";
+import {
+  applyPermissionPolicy,
+  loadPermissionPolicy,
+} from "./permission-policy.js";
+import type {
+  PluginSettings,
+  PluginSettingsStore,
+} from "./settings-store.js";
 
 /** Plugin loading error */
 export class PluginLoadError extends Error {
   constructor(
     public readonly pluginPath: string,
     message: string,
+    /** Individual validation problems, when the error came from a schema */
+    public readonly issues: ConfigIssue[] = [],
   ) {
     super(`Failed to load plugin at '${pluginPath}': ${message}`);
     this.name = "PluginLoadError";
@@ -28,8 +46,52 @@ export interface LoaderConfig {
   pluginsDir: string;
   /** User configuration overrides per plugin */
   pluginConfigs?: Record<string, Record<string, unknown>>;
-  /** Plugins to explicitly disable */
+  /** Plugins to explicitly disable (runtime settings take precedence) */
   disabledPlugins?: string[];
+  /** Watch the plugins directory and hot-reload changed plugins */
+  watch?: boolean;
+  /** Delay before a burst of file changes triggers a reload (ms) */
+  watchDebounceMs?: number;
+  /** Core version checked against plugin version ranges (defaults to FRONTCLAW_VERSION) */
+  hostVersion?: string;
+  /** List incompatible plugins without starting them, or start them with a warning */
+  versionCheck?: "reject" | "warn";
+  /** Default resource limits, also capping what manifests may declare */
+  resourceLimits?: ResourceLimits;
+  /** Resource limits per plugin, taking precedence over the manifest */
+  pluginResourceLimits?: Record<string, ResourceLimits>;
+  /** Most workers a stateless plugin may declare (defaults to 4) */
+  maxWorkersPerPlugin?: number;
+  /** Worker count per stateless plugin, taking precedence over the manifest */
+  pluginWorkers?: Record<string, number>;
+  /**
+   * Commands stdio plugins may start with instead of the SDK host, per
+   * plugin; a manifest declaring any other command is rejected
+   */
+  pluginCommands?: Record<string, string[]>;
+  /**
+   * Plugins installed from the registry that may run in a worker inside the
+   * server; the others run as stdio processes whatever they declare
+   */
+  trustedPlugins?: string[];
+  /** JSON file with the operator's permission policy, narrowing manifests */
+  permissionPolicyPath?: string;
+  /** Prefix of the database tables plugins own (defaults to "fc_") */
+  tablePrefix?: string;
+}
+
+const DEFAULT_WATCH_DEBOUNCE_MS = 200;
+const DEFAULT_TABLE_PREFIX = "fc_";
+/** Longest identifier Postgres keeps without truncating it */
+const MAX_TABLE_NAME_LENGTH = 63;
+const DEFAULT_MAX_WORKERS_PER_PLUGIN = 4;
+
+/** Result of resolving plugin dependencies */
+export interface LoadOrderResult {
+  /** Plugins in dependency order (dependencies first, then by priority) */
+  plugins: LoadedPluginManifest[];
+  /** Plugins that were rejected and why */
+  errors: PluginLoadError[];
 }
 
 /**
@@ -37,12 +99,16 @@ export interface LoaderConfig {
  * Handles plugin discovery and manifest validation
  */
 export class PluginLoader {
-  constructor(private readonly config: LoaderConfig) {}
+  constructor(
+    private readonly config: LoaderConfig,
+    /** Overrides set at runtime, applied over the loader configuration */
+    private readonly settings?: PluginSettingsStore,
+  ) {}
 
   /**
-   * Discover and load all plugins from the plugins directory
+   * List the plugin directories in the plugins directory
    */
-  async loadAll(): Promise<LoadedPluginManifest[]> {
+  discoverPluginPaths(): string[] {
     const pluginsDir = this.config.pluginsDir;
 
     // Ensure plugins directory exists
@@ -51,33 +117,23 @@ export class PluginLoader {
       return [];
     }
 
-    // Get all subdirectories
+    // Get all subdirectories, skipping hidden ones (e.g. installs in progress)
     const entries = fs.readdirSync(pluginsDir, { withFileTypes: true });
-    const pluginDirs = entries.filter((e) => e.isDirectory());
+    return entries
+      .filter((e) => e.isDirectory() && !e.name.startsWith("."))
+      .map((e) => path.join(pluginsDir, e.name));
+  }
 
+  /**
+   * Discover and load all plugins from the plugins directory.
+   * Disabled plugins are included, so they can be enabled again.
+   */
+  async loadAll(): Promise<LoadedPluginManifest[]> {
     const loadedPlugins: LoadedPluginManifest[] = [];
 
-    for (const dir of pluginDirs) {
-      const pluginPath = path.join(pluginsDir, dir.name);
-
+    for (const pluginPath of this.discoverPluginPaths()) {
       try {
-        const manifest = await this.loadPlugin(pluginPath);
-
-        // Check if explicitly disabled
-        if (this.config.disabledPlugins?.includes(manifest.id)) {
-          console.log(`Plugin '${manifest.id}' is disabled, skipping`);
-          continue;
-        }
-
-        // Check if enabled in manifest
-        if (!manifest.enabled) {
-          console.log(
-            `Plugin '${manifest.id}' is disabled in manifest, skipping`,
-          );
-          continue;
-        }
-
-        loadedPlugins.push(manifest);
+        loadedPlugins.push(await this.loadPlugin(pluginPath));
       } catch (error) {
         if (error instanceof PluginLoadError) {
           console.error(error.message);
@@ -87,10 +143,182 @@ export class PluginLoader {
       }
     }
 
-    // Sort by priority (lower = earlier)
-    loadedPlugins.sort((a, b) => a.priority - b.priority);
+    const { plugins, errors } = this.resolveLoadOrder(loadedPlugins);
+    for (const error of errors) {
+      console.error(error.message);
+    }
+
+    return plugins;
+  }
+
+  /**
+   * Order plugins so dependencies load first.
+   * Plugins with missing or version-incompatible dependencies, or that sit
+   * on a dependency cycle, are rejected along with everything depending on them.
+   * Ties are broken by priority (lower = earlier).
+   */
+  resolveLoadOrder(manifests: LoadedPluginManifest[]): LoadOrderResult {
+    const errors: PluginLoadError[] = [];
+    const available = new Map(manifests.map((m) => [m.id, m]));
+
+    // Drop plugins with unmet dependencies until nothing else changes,
+    // since removing one plugin can break the plugins depending on it.
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const manifest of available.values()) {
+        const problem = this.findUnmetDependency(manifest, available);
+        if (!problem) continue;
+
+        errors.push(new PluginLoadError(manifest.pluginPath, problem));
+        available.delete(manifest.id);
+        changed = true;
+      }
+    }
+
+    const { sorted: plugins, unsorted: remaining } = sortByDependencies(
+      Array.from(available.values()),
+    );
+
+    // Anything left is on a cycle or depends on one
+    for (const id of remaining.keys()) {
+      const manifest = available.get(id)!;
+      errors.push(
+        new PluginLoadError(
+          manifest.pluginPath,
+          `Dependency cycle detected: ${this.findCycle(id, remaining).join(" -> ")}`,
+        ),
+      );
+    }
+
+    return { plugins, errors };
+  }
+
+  /**
+   * Describe the first dependency that is missing or out of range
+   */
+  private findUnmetDependency(
+    manifest: LoadedPluginManifest,
+    available: Map<string, LoadedPluginManifest>,
+  ): string | null {
+    for (const [depId, range] of Object.entries(manifest.dependencies)) {
+      const dependency = available.get(depId);
+      if (!dependency) {
+        return `Missing dependency '${depId}' (${range})`;
+      }
+      if (!Bun.semver.satisfies(dependency.version, range)) {
+        return `Dependency '${depId}' version ${dependency.version} does not satisfy '${range}'`;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Follow unresolved dependencies from a plugin until an id repeats
+   */
+  private findCycle(
+    startId: string,
+    unresolved: Map<string, Set<string>>,
+  ): string[] {
+    const path: string[] = [];
+    let current: string | undefined = startId;
+
+    while (current && !path.includes(current)) {
+      path.push(current);
+      current = unresolved.get(current)?.values().next().value;
+    }
 
-    return loadedPlugins;
+    if (!current) return path;
+    return [...path.slice(path.indexOf(current)), current];
+  }
+
+  /**
+   * Check whether a plugin should be started: runtime settings win over
+   * the loader's disabled list, which wins over the manifest
+   */
+  isEnabled(
+    manifest: PluginManifest,
+    settings?: PluginSettings | null,
+  ): boolean {
+    if (settings?.enabled !== undefined) return settings.enabled;
+    if (this.config.disabledPlugins?.includes(manifest.id)) return false;
+    return manifest.enabled;
+  }
+
+  /**
+   * Merge a plugin's default, loader and runtime configuration and validate
+   * the result against its configSchema
+   */
+  resolveConfig(
+    manifest: PluginManifest,
+    pluginPath: string,
+    overrides: Record<string, unknown> = {},
+  ): Record<string, unknown> {
+    const validation = validatePluginConfig(manifest.configSchema, {
+      ...manifest.defaultConfig,
+      ...this.config.pluginConfigs?.[manifest.id],
+      ...overrides,
+    });
+    if (!validation.success) {
+      const errors = validation.issues
+        .map((i) => `config.${i.path}: ${i.message}`)
+        .join(", ");
+      throw new PluginLoadError(
+        pluginPath,
+        `Invalid config: ${errors}`,
+        validation.issues,
+      );
+    }
+    return validation.config;
+  }
+
+  /**
+   * Watch the plugins directory for changes
+   * Calls onChange with the plugin directory once its files settle.
+   * Returns a function that stops watching.
+   */
+  watch(onChange: (pluginPath: string) => void): () => void {
+    const pluginsDir = this.config.pluginsDir;
+
+    if (!fs.existsSync(pluginsDir)) {
+      console.warn(`Plugins directory not found: ${pluginsDir}`);
+      return () => {};
+    }
+
+    const debounceMs =
+      this.config.watchDebounceMs ?? DEFAULT_WATCH_DEBOUNCE_MS;
+    const timers = new Map<string, ReturnType<typeof setTimeout>>();
+
+    const watcher = fs.watch(
+      pluginsDir,
+      { recursive: true },
+      (_event, filename) => {
+        if (!filename) return;
+
+        const segments = filename.toString().split(path.sep);
+        const dirName = segments[0];
+        if (!dirName || dirName.startsWith(".")) return;
+        if (segments.includes("node_modules")) return;
+
+        const pluginPath = path.join(pluginsDir, dirName);
+        clearTimeout(timers.get(pluginPath));
+        timers.set(
+          pluginPath,
+          setTimeout(() => {
+            timers.delete(pluginPath);
+            onChange(pluginPath);
+          }, debounceMs),
+        );
+      },
+    );
+
+    return () => {
+      for (const timer of timers.values()) {
+        clearTimeout(timer);
+      }
+      timers.clear();
+      watcher.close();
+    };
   }
 
   /**
@@ -131,6 +359,22 @@ export class PluginLoader {
 
     const manifest = parseResult.data;
 
+    // Check the plugin supports this core version; rejected plugins are
+    // still loaded so they can be listed with the reason
+    const compatibility = this.checkCompatibility(manifest);
+    if (compatibility.status === "incompatible") {
+      if ((this.config.versionCheck ?? "reject") === "reject") {
+        compatibility.rejected = true;
+        console.warn(
+          `Plugin '${manifest.id}' will not be started: ${compatibility.reason}`,
+        );
+      } else {
+        console.warn(
+          `Plugin '${manifest.id}' may not work correctly: ${compatibility.reason}`,
+        );
+      }
+    }
+
     // Resolve entry path
     const entryPath = path.join(pluginPath, manifest.main);
     if (!fs.existsSync(entryPath)) {
@@ -140,21 +384,248 @@ export class PluginLoader {
       );
     }
 
-    // Merge configuration
-    const userConfig = this.config.pluginConfigs?.[manifest.id] || {};
-    const mergedConfig = {
-      ...manifest.defaultConfig,
-      ...userConfig,
-    };
+    // A custom command runs outside the SDK sandbox, so only the operator
+    // can pick it
+    if (manifest.command) {
+      const approved = this.config.pluginCommands?.[manifest.id];
+      if (!approved || !Bun.deepEquals(approved, manifest.command)) {
+        throw new PluginLoadError(
+          pluginPath,
+          `Command '${manifest.command.join(" ")}' is not approved by the operator`,
+        );
+      }
+    }
+
+    // Check schedules now, so the scheduler can rely on them
+    const jobNames = new Set<string>();
+    for (const schedule of manifest.schedules) {
+      if (jobNames.has(schedule.name)) {
+        throw new PluginLoadError(
+          pluginPath,
+          `Duplicate schedule name '${schedule.name}'`,
+        );
+      }
+      jobNames.add(schedule.name);
+
+      try {
+        nextCronTime(parseCron(schedule.cron), new Date());
+      } catch (error) {
+        throw new PluginLoadError(
+          pluginPath,
+          `Invalid schedule '${schedule.name}': ${(error as Error).message}`,
+        );
+      }
+    }
+
+    const secretNames = new Set<string>();
+    for (const secret of manifest.secrets) {
+      if (secretNames.has(secret.name)) {
+        throw new PluginLoadError(
+          pluginPath,
+          `Duplicate secret name '${secret.name}'`,
+        );
+      }
+      secretNames.add(secret.name);
+    }
+
+    // Merge configuration and validate it against the plugin's configSchema
+    const settings = await this.settings?.get(manifest.id);
+    const config = this.resolveConfig(manifest, pluginPath, settings?.config);
+
+    // Narrow the declared permissions by the operator's policy
+    let permissions = manifest.permissions;
+    if (this.config.permissionPolicyPath) {
+      try {
+        const policy = loadPermissionPolicy(this.config.permissionPolicyPath);
+        permissions = applyPermissionPolicy(manifest.id, permissions, policy);
+      } catch (error) {
+        throw new PluginLoadError(pluginPath, (error as Error).message);
+      }
+    }
+
+    // Check row filters now, so a bad one fails the load, not every query
+    const rowFilters = Object.entries(permissions.db?.row_filters ?? {});
+    for (const [table, filter] of rowFilters) {
+      try {
+        parseRowFilter(filter);
+      } catch (error) {
+        throw new PluginLoadError(
+          pluginPath,
+          `Invalid row filter for table '${table}': ${(error as Error).message}`,
+        );
+      }
+    }
+
+    const tableNames = this.resolveTableNames(manifest, pluginPath);
+    const source = fs.existsSync(path.join(pluginPath, INSTALL_RECORD_FILE))
+      ? "registry"
+      : "bundled";
+
+    // Check migrations now, so the Core never runs one touching other tables
+    let lastVersion = 0;
+    for (const migration of manifest.migrations) {
+      if (migration.version <= lastVersion) {
+        throw new PluginLoadError(
+          pluginPath,
+          `Migration versions must increase (${migration.version} follows ${lastVersion})`,
+        );
+      }
+      lastVersion = migration.version;
+
+      try {
+        analyzeMigration(migration.sql, Object.values(tableNames));
+      } catch (error) {
+        throw new PluginLoadError(
+          pluginPath,
+          `Invalid migration ${migration.version}: ${(error as Error).message}`,
+        );
+      }
+    }
 
     return {
       ...manifest,
       pluginPath,
       entryPath,
-      config: mergedConfig,
+      enabled: this.isEnabled(manifest, settings),
+      config,
+      permissions,
+      declaredPermissions: manifest.permissions,
+      transport: this.resolveTransport(manifest, source),
+      limits: this.resolveResourceLimits(manifest),
+      workers: this.resolveWorkerCount(manifest),
+      compatibility,
+      tableNames,
+      source,
     };
   }
 
+  /**
+   * Pick how a plugin runs. A worker can't take every network API away
+   * from plugin code, so third-party plugins run as isolated processes
+   * unless the operator trusts them.
+   */
+  resolveTransport(
+    manifest: PluginManifest,
+    source: LoadedPluginManifest["source"],
+  ): PluginManifest["transport"] {
+    if (
+      source === "registry" &&
+      !this.config.trustedPlugins?.includes(manifest.id)
+    ) {
+      return "stdio";
+    }
+    return manifest.transport;
+  }
+
+  /**
+   * Name the tables a plugin owns after it, e.g. "notes" of "notes-app" is
+   * "fc_plugin_notes_app__notes". Plugin IDs have no underscores and table
+   * names no double ones, so no two plugins' tables can share a name.
+   */
+  private resolveTableNames(
+    manifest: PluginManifest,
+    pluginPath: string,
+  ): Record<string, string> {
+    const prefix =
+      `${this.config.tablePrefix ?? DEFAULT_TABLE_PREFIX}plugin_` +
+      `${manifest.id.replace(/-/g, "_")}__`;
+    const tableNames: Record<string, string> = {};
+
+    for (const table of manifest.tables) {
+      if (tableNames[table]) {
+        throw new PluginLoadError(
+          pluginPath,
+          `Duplicate table name '${table}'`,
+        );
+      }
+      const name = `${prefix}${table}`;
+      if (name.length > MAX_TABLE_NAME_LENGTH) {
+        throw new PluginLoadError(
+          pluginPath,
+          `Table name '${name}' is longer than ${MAX_TABLE_NAME_LENGTH} characters`,
+        );
+      }
+      tableNames[table] = name;
+    }
+    return tableNames;
+  }
+
+  /**
+   * Combine manifest and operator resource limits.
+   * Per-plugin operator limits win; otherwise the stricter of the manifest
+   * and the operator default applies.
+   */
+  resolveResourceLimits(manifest: PluginManifest): ResourceLimits {
+    const declared = manifest.limits ?? {};
+    const defaults = this.config.resourceLimits ?? {};
+    const overrides = this.config.pluginResourceLimits?.[manifest.id] ?? {};
+    const resolved: ResourceLimits = {};
+
+    for (const key of [
+      "maxHeapMb",
+      "maxConcurrentHooks",
+      "hookBudgetMs",
+    ] as const) {
+      const candidates = [declared[key], defaults[key]].filter(
+        (value): value is number => value !== undefined,
+      );
+      const value =
+        overrides[key] ??
+        (candidates.length > 0 ? Math.min(...candidates) : undefined);
+      if (value !== undefined) resolved[key] = value;
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Decide how many workers a plugin runs.
+   * Only stateless plugins get more than one; the per-plugin operator count
+   * wins, otherwise the manifest's count capped by maxWorkersPerPlugin.
+   */
+  resolveWorkerCount(manifest: PluginManifest): number {
+    if (!manifest.stateless) return 1;
+
+    const override = this.config.pluginWorkers?.[manifest.id];
+    if (override !== undefined) return override;
+
+    return Math.min(
+      manifest.workers ?? 1,
+      this.config.maxWorkersPerPlugin ?? DEFAULT_MAX_WORKERS_PER_PLUGIN,
+    );
+  }
+
+  /**
+   * Check a manifest's Frontclaw version constraints against the host version
+   */
+  checkCompatibility(manifest: PluginManifest): PluginCompatibility {
+    const hostVersion = this.config.hostVersion ?? FRONTCLAW_VERSION;
+    const ranges = [
+      manifest.minFrontclawVersion && `>=${manifest.minFrontclawVersion}`,
+      manifest.frontclawVersion,
+    ].filter((range): range is string => Boolean(range));
+
+    if (ranges.length === 0) {
+      return { status: "unspecified", hostVersion };
+    }
+
+    const range = ranges.join(" ");
+    const unmet = ranges.find(
+      (candidate) => !Bun.semver.satisfies(hostVersion, candidate),
+    );
+
+    if (unmet) {
+      return {
+        status: "incompatible",
+        hostVersion,
+        range,
+        reason: `Requires Frontclaw '${unmet}', but this is ${hostVersion}`,
+      };
+    }
+
+    return { status: "compatible", hostVersion, range };
+  }
+
   /**
    * Validate a manifest without loading the plugin
    */
@@ -0,0 +1,93 @@
+/**
+ * Plugin Settings Store
+ * Persists the enabled state and configuration set for plugins at runtime,
+ * on top of the loader configuration and the manifests
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+
+/** Runtime overrides for a plugin */
+export interface PluginSettings {
+  /** Start or skip the plugin, regardless of its manifest */
+  enabled?: boolean;
+  /** Configuration merged over the defaults and loader configuration */
+  config?: Record<string, unknown>;
+  updatedAt: string;
+}
+
+export interface PluginSettingsStore {
+  get(pluginId: string): Promise<PluginSettings | null>;
+  set(pluginId: string, settings: PluginSettings): Promise<void>;
+  delete(pluginId: string): Promise<void>;
+}
+
+/**
+ * Keeps settings for the lifetime of the process only
+ */
+export class InMemorySettingsStore implements PluginSettingsStore {
+  private settings = new Map<string, PluginSettings>();
+
+  async get(pluginId: string): Promise<PluginSettings | null> {
+    return this.settings.get(pluginId) ?? null;
+  }
+
+  async set(pluginId: string, settings: PluginSettings): Promise<void> {
+    this.settings.set(pluginId, settings);
+  }
+
+  async delete(pluginId: string): Promise<void> {
+    this.settings.delete(pluginId);
+  }
+}
+
+/**
+ * Keeps settings in a JSON file, keyed by plugin ID
+ */
+export class FileSettingsStore implements PluginSettingsStore {
+  /** Writes run one at a time so concurrent updates don't drop each other */
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  private read(): Record<string, PluginSettings> {
+    if (!fs.existsSync(this.filePath)) return {};
+    return JSON.parse(fs.readFileSync(this.filePath, "utf-8"));
+  }
+
+  async get(pluginId: string): Promise<PluginSettings | null> {
+    await this.writeQueue;
+    return this.read()[pluginId] ?? null;
+  }
+
+  async set(pluginId: string, settings: PluginSettings): Promise<void> {
+    return this.update((all) => ({ ...all, [pluginId]: settings }));
+  }
+
+  async delete(pluginId: string): Promise<void> {
+    return this.update((all) => {
+      delete all[pluginId];
+      return all;
+    });
+  }
+
+  private update(
+    change: (
+      all: Record<string, PluginSettings>,
+    ) => Record<string, PluginSettings>,
+  ): Promise<void> {
+    const write = this.writeQueue.then(() => {
+      const all = change(this.read());
+
+      // Plugin config can hold credentials: write privately, and atomically
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify(all, null, 2), {
+        mode: 0o600,
+      });
+      fs.renameSync(tempPath, this.filePath);
+    });
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+}
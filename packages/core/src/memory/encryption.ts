@@ -0,0 +1,92 @@
+/**
+ * Value Encryption
+ * Seals JSON values with AES-256-GCM and signs them with HMAC-SHA256,
+ * for storage that isn't trusted with plaintext
+ */
+
+import crypto from "node:crypto";
+
+export interface EncryptionKeys {
+  /** AES-256-GCM key (32 bytes) */
+  encryptionKey: Buffer;
+  /** HMAC-SHA256 key, defaulting to the encryption key */
+  signingKey?: Buffer;
+}
+
+interface SealedValue {
+  v: number;
+  iv: string;
+  tag: string;
+  ct: string;
+  hmac: string;
+}
+
+/**
+ * Throw unless the keys can be used for sealing
+ */
+export function assertEncryptionKeys(keys: EncryptionKeys): void {
+  if (keys.encryptionKey.length !== 32) {
+    throw new Error("encryptionKey must be 32 bytes (AES-256-GCM)");
+  }
+}
+
+function sign(
+  keys: EncryptionKeys,
+  iv: Buffer,
+  tag: Buffer,
+  ciphertext: Buffer,
+): string {
+  return crypto
+    .createHmac("sha256", keys.signingKey ?? keys.encryptionKey)
+    .update(iv)
+    .update(tag)
+    .update(ciphertext)
+    .digest("base64");
+}
+
+/**
+ * Encrypt and sign a JSON-serializable value
+ */
+export function encryptValue(value: unknown, keys: EncryptionKeys): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", keys.encryptionKey, iv);
+  const plaintext = Buffer.from(JSON.stringify(value), "utf8");
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  const tag = cipher.getAuthTag();
+
+  const sealed: SealedValue = {
+    v: 1,
+    iv: iv.toString("base64"),
+    tag: tag.toString("base64"),
+    ct: ciphertext.toString("base64"),
+    hmac: sign(keys, iv, tag, ciphertext),
+  };
+  return JSON.stringify(sealed);
+}
+
+/**
+ * Check the signature of a value from encryptValue and decrypt it
+ */
+export function decryptValue<T>(payload: string, keys: EncryptionKeys): T {
+  const data = JSON.parse(payload) as SealedValue;
+
+  const iv = Buffer.from(data.iv, "base64");
+  const tag = Buffer.from(data.tag, "base64");
+  const ciphertext = Buffer.from(data.ct, "base64");
+
+  if (sign(keys, iv, tag, ciphertext) !== data.hmac) {
+    throw new Error("Encrypted value signature mismatch");
+  }
+
+  const decipher = crypto.createDecipheriv(
+    "aes-256-gcm",
+    keys.encryptionKey,
+    iv,
+  );
+  decipher.setAuthTag(tag);
+  const plaintext = Buffer.concat([
+    decipher.update(ciphertext),
+    decipher.final(),
+  ]);
+  return JSON.parse(plaintext.toString("utf8")) as T;
+}
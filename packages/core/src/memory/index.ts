@@ -2,6 +2,7 @@
  * Memory Module
  */
 
+export { type EncryptionKeys } from "./encryption.js";
 export { InMemoryService, type MemoryService } from "./memory-service.js";
 export { RedisMemoryService, type RedisMemoryOptions } from "./redis-memory-service.js";
 export { SecureMemoryService, type SecureMemoryOptions } from "./secure-memory-service.js";
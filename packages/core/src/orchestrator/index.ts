@@ -6,4 +6,12 @@
 export {
   Orchestrator,
 } from "./orchestrator.js";
-export type { OrchestratorConfig, PipelineResult } from "./types.js";
+export type {
+  OrchestratorConfig,
+  PermissionReview,
+  PluginLLMUsage,
+  PluginSecretStatus,
+  PluginSettingsUpdate,
+  PluginUninstallOptions,
+  PipelineResult,
+} from "./types.js";
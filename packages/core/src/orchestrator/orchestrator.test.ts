@@ -0,0 +1,82 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import type { SysCallDependencies } from "../bridge/types.js";
+import { StalePermissionReviewError } from "../loader/permission-diff.js";
+import { LocalPluginRegistry } from "../registry/local-registry.js";
+import { Orchestrator } from "./orchestrator.js";
+
+function writePlugin(dir: string, version: string): void {
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(
+    path.join(dir, "frontclaw.json"),
+    JSON.stringify({ id: "hello", name: "Hello", version, permissions: {} }),
+  );
+  fs.writeFileSync(path.join(dir, "README.md"), "# Hello\n");
+  fs.writeFileSync(path.join(dir, "index.ts"), "export default {};\n");
+}
+
+describe("Orchestrator plugin administration", () => {
+  let root: string;
+  let bundledDir: string;
+  let orchestrator: Orchestrator;
+
+  beforeAll(async () => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "frontclaw-install-"));
+    const pluginsDir = path.join(root, "plugins");
+    bundledDir = path.join(pluginsDir, "hello");
+    writePlugin(bundledDir, "1.0.0");
+
+    // A registry package claiming the bundled plugin's ID
+    const source = path.join(root, "source");
+    writePlugin(source, "2.0.0");
+    new LocalPluginRegistry(path.join(root, "registry")).publish(source);
+
+    orchestrator = new Orchestrator({
+      // Disabled, so the test doesn't start a worker
+      loader: { pluginsDir, disabledPlugins: ["hello"] },
+      dependencies: {
+        db: {},
+        logger: console,
+      } as unknown as SysCallDependencies,
+      registry: { dir: path.join(root, "registry") },
+    });
+    await orchestrator.start();
+  });
+
+  afterAll(async () => {
+    await orchestrator.stop();
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  test("won't replace a bundled plugin", async () => {
+    await expect(orchestrator.installPlugin("hello", "2.0.0")).rejects.toThrow(
+      expect.objectContaining({ code: "BUNDLED_PLUGIN" }),
+    );
+    expect(orchestrator.getManifest("hello")?.version).toBe("1.0.0");
+    expect(
+      fs.readFileSync(path.join(bundledDir, "frontclaw.json"), "utf-8"),
+    ).toContain('"1.0.0"');
+  });
+
+  test("only approves the permissions that were reviewed", async () => {
+    const review = await orchestrator.getPermissionReview("hello");
+    await expect(
+      orchestrator.approvePermissions("hello", "0".repeat(64)),
+    ).rejects.toThrow(StalePermissionReviewError);
+
+    await orchestrator.approvePermissions("hello", review!.permissionsHash);
+    expect((await orchestrator.getPermissionReview("hello"))?.approved).toEqual(
+      expect.objectContaining({ version: "1.0.0" }),
+    );
+  });
+
+  test("won't uninstall a bundled plugin", async () => {
+    await expect(orchestrator.uninstallPlugin("hello")).rejects.toThrow(
+      expect.objectContaining({ code: "BUNDLED_PLUGIN" }),
+    );
+    expect(orchestrator.getManifest("hello")).toBeDefined();
+    expect(fs.existsSync(path.join(bundledDir, "index.ts"))).toBe(true);
+  });
+});
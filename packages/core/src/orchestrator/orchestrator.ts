@@ -6,6 +6,13 @@
 import type {
   LoadedPluginManifest,
   ChatMessage,
+  LLMEmbedOptions,
+  LLMEmbedResult,
+  LLMGenerateOptions,
+  LLMGenerateResult,
+  LLMStructuredOptions,
+  LLMStructuredResult,
+  LLMUsage,
   ToolDefinition,
   ToolResult,
   SkillDefinition,
@@ -13,14 +20,47 @@ import type {
   SearchOptions,
   HTTPRequestContext,
   HTTPResponse,
+  PluginEvent,
   SocketClient,
 } from "@workspace/plugin-sdk";
+import fs from "node:fs";
+import path from "node:path";
 import {
+  PluginProcessBridge,
+  PluginSupervisor,
   PluginWorkerBridge,
+  PluginWorkerPool,
   createSysCallHandler,
+  type HookContext,
+  type PluginBridge,
+  type PluginCapabilities,
+  type PluginHealth,
 } from "../bridge/index.js";
-import { PluginLoader } from "../loader/index.js";
+import {
+  diffPermissions,
+  hashPermissions,
+  InMemoryApprovalStore,
+  InMemorySettingsStore,
+  PluginLoader,
+  StalePermissionReviewError,
+  type ApprovedPermissions,
+  type PermissionApprovalStore,
+  type PermissionChange,
+  type PluginSettings,
+  type PluginSettingsStore,
+} from "../loader/index.js";
+import type { AIClient } from "../ai/index.js";
 import { InMemoryService, type MemoryService } from "../memory/index.js";
+import {
+  LocalPluginRegistry,
+  PluginPackageError,
+  readPackage,
+  unpackPackage,
+  verifyPackage,
+  writeInstallRecord,
+} from "../registry/index.js";
+import { PluginScheduler, type JobStatus } from "../scheduler/index.js";
+import { EnvSecretStore, type SecretStore } from "../secrets/index.js";
 import {
   afterLLMCallPipeline,
   beforeLLMCallPipeline,
@@ -39,33 +79,75 @@ import {
   onSocketMessagePipeline,
 } from "./pipelines/socket.js";
 import { routeHTTPRequestPipeline } from "./pipelines/http.js";
-import type { PluginRuntimeContext } from "./runtime-context.js";
-import type { OrchestratorConfig, PipelineResult } from "./types.js";
+import { dispatchEventPipeline } from "./pipelines/events.js";
+import {
+  buildHookDispatchTable,
+  getHookPlugins,
+  type HookDispatchTable,
+  type PluginRuntimeContext,
+} from "./runtime-context.js";
+import type {
+  OrchestratorConfig,
+  PermissionReview,
+  PipelineResult,
+  PluginLLMUsage,
+  PluginSecretStatus,
+  PluginSettingsUpdate,
+  PluginUninstallOptions,
+} from "./types.js";
+
+/** Event topics: dot-separated kebab-case segments (e.g. "catalog.synced") */
+const EVENT_TOPIC_PATTERN = /^[a-z][a-z0-9-]*(\.[a-z][a-z0-9-]*)*$/;
 
 /**
  * Orchestrator
  * Manages plugin lifecycle and sequential pipeline execution
  */
 export class Orchestrator {
-  private bridges: Map<string, PluginWorkerBridge> = new Map();
+  private bridges: Map<string, PluginBridge> = new Map();
   private manifests: LoadedPluginManifest[] = [];
+  private hooks: HookDispatchTable = { byHook: new Map(), unreported: [] };
   private loader: PluginLoader;
   private sysCallHandler: ReturnType<typeof createSysCallHandler>;
   private isStarted = false;
   private memory: MemoryService;
+  private supervisor: PluginSupervisor;
+  private scheduler: PluginScheduler;
+  private approvals: PermissionApprovalStore;
+  private settings: PluginSettingsStore;
+  private secrets: SecretStore;
+  private llmUsage = new Map<string, PluginLLMUsage>();
+  /** Plugins held back until an admin approves their new permissions */
+  private quarantined = new Map<string, PermissionChange[]>();
   private toolsCache: ToolDefinition[] | null = null;
   private skillsCache: SkillDefinition[] | null = null;
+  /** Bumped whenever the plugin set changes, so stale cache fills are dropped */
+  private pluginsGeneration = 0;
+  private reloadQueue: Promise<void> = Promise.resolve();
+  private stopWatching: (() => void) | null = null;
 
   constructor(private readonly config: OrchestratorConfig) {
-    this.loader = new PluginLoader(config.loader);
+    this.settings = config.settingsStore ?? new InMemorySettingsStore();
+    this.loader = new PluginLoader(config.loader, this.settings);
     this.memory = config.memoryService ?? new InMemoryService();
+    this.supervisor = new PluginSupervisor(config.supervisor);
+    this.scheduler = new PluginScheduler((pluginId, jobName) =>
+      this.runScheduledJob(pluginId, jobName),
+    );
+    this.approvals = config.approvalStore ?? new InMemoryApprovalStore();
+    this.secrets = config.secretStore ?? new EnvSecretStore();
     this.sysCallHandler = createSysCallHandler(config.dependencies, this);
   }
 
-  private getRuntimeContext(): PluginRuntimeContext {
+  private getRuntimeContext(
+    hookContext: HookContext = {},
+  ): PluginRuntimeContext {
     return {
       manifests: this.manifests,
       bridges: this.bridges,
+      hooks: this.hooks,
+      tryAcquire: (pluginId) => this.supervisor.tryAcquire(pluginId),
+      hookContext,
     };
   }
 
@@ -73,41 +155,314 @@ export class Orchestrator {
    * Preload plugin-exposed capabilities so the first request does not pay discovery cost.
    */
   private async warmCapabilities(): Promise<void> {
-    const runtime = this.getRuntimeContext();
-    this.toolsCache = await collectToolsPipeline(runtime);
-    this.skillsCache = await collectSkillsPipeline(runtime);
+    await this.collectTools();
+    await this.collectSkills();
   }
 
   /**
-   * Start the orchestrator and load all plugins
+   * Create the bridge for one sandbox of a plugin, using the transport its
+   * manifest selects
    */
-  async start(): Promise<void> {
-    if (this.isStarted) {
-      throw new Error("Orchestrator already started");
+  private createWorkerBridge(
+    manifest: LoadedPluginManifest,
+  ): PluginWorkerBridge {
+    const Bridge =
+      manifest.transport === "stdio" ? PluginProcessBridge : PluginWorkerBridge;
+    return new Bridge(
+      manifest,
+      this.sysCallHandler,
+      {
+        hookTimeout: this.config.hookTimeout || 5000,
+        sysCallTimeout: 30000,
+        processIsolation: this.config.processIsolation,
+      },
+      this.supervisor,
+    );
+  }
+
+  /**
+   * Start a bridge for a single plugin, pooling the workers of stateless
+   * plugins configured to run more than one
+   */
+  private async startBridge(
+    manifest: LoadedPluginManifest,
+  ): Promise<PluginBridge> {
+    await this.migrateTables(manifest);
+
+    const workers = manifest.workers ?? 1;
+    const workerBridges: PluginWorkerBridge[] = [];
+    const createWorker = () => {
+      const worker = this.createWorkerBridge(manifest);
+      workerBridges.push(worker);
+      return worker;
+    };
+    const bridge =
+      workers > 1
+        ? new PluginWorkerPool(manifest, workers, createWorker)
+        : createWorker();
+
+    await bridge.start();
+    // From here on, crashes of the version being replaced are ignored
+    this.supervisor.reset(manifest.id, workerBridges);
+    console.log(
+      `Loaded plugin: ${manifest.name} (${manifest.id})` +
+        (workers > 1 ? ` with ${workers} workers` : ""),
+    );
+    return bridge;
+  }
+
+  /**
+   * Run a plugin's pending migrations, so each version starts on the
+   * tables it expects. A failed migration keeps the plugin from starting.
+   */
+  private async migrateTables(manifest: LoadedPluginManifest): Promise<void> {
+    if (manifest.migrations.length === 0) return;
+
+    const applied = await this.config.dependencies.db.migratePluginTables(
+      manifest.id,
+      manifest.migrations,
+    );
+    if (applied.length > 0) {
+      console.log(
+        `Migrated tables of plugin ${manifest.id} (versions ${applied.join(", ")})`,
+      );
     }
+  }
 
-    console.log("Starting Frontclaw Orchestrator...");
+  /**
+   * Warn about required secrets the operator hasn't set; the plugin still
+   * starts, and reading them fails
+   */
+  private async warnMissingSecrets(
+    manifest: LoadedPluginManifest,
+  ): Promise<void> {
+    const missing: string[] = [];
+    for (const secret of manifest.secrets) {
+      if (
+        secret.required &&
+        (await this.secrets.get(manifest.id, secret.name)) === null
+      ) {
+        missing.push(secret.name);
+      }
+    }
 
-    this.manifests = await this.loader.loadAll();
-    console.log(`Discovered ${this.manifests.length} plugins`);
+    if (missing.length > 0) {
+      console.warn(
+        `Plugin ${manifest.id} is missing required secrets: ${missing.join(", ")}`,
+      );
+    }
+  }
+
+  /**
+   * Permissions a plugin asks for beyond its approved set. Bundled plugins
+   * seen for the first time are approved as they are; a plugin installed
+   * from the registry needs all of its permissions approved first.
+   */
+  private permissionChanges(
+    manifest: LoadedPluginManifest,
+    approved: ApprovedPermissions | null,
+  ): PermissionChange[] {
+    if (approved) {
+      return diffPermissions(approved.permissions, manifest.permissions);
+    }
+    if (manifest.source === "registry") {
+      return [
+        { permission: "*", approved: undefined, requested: manifest.permissions },
+      ];
+    }
+    return [];
+  }
+
+  /**
+   * Check a plugin's permissions against the last approved set.
+   * Plugins asking for more than was approved are quarantined instead of
+   * started.
+   */
+  private async checkPermissions(
+    manifest: LoadedPluginManifest,
+  ): Promise<boolean> {
+    const approved = await this.approvals.get(manifest.id);
+    const changes = this.permissionChanges(manifest, approved);
+
+    if (changes.length > 0) {
+      this.quarantined.set(manifest.id, changes);
+      console.warn(
+        `Quarantined plugin ${manifest.id}: permissions awaiting approval ` +
+          `(${changes.map((change) => change.permission).join(", ")})`,
+      );
+      return false;
+    }
+
+    this.quarantined.delete(manifest.id);
+
+    // Remember the current set, so permissions that were dropped need
+    // approval again if they come back
+    if (
+      !approved ||
+      approved.version !== manifest.version ||
+      !Bun.deepEquals(approved.permissions, manifest.permissions)
+    ) {
+      await this.approvePermissionSet(manifest);
+    }
+    return true;
+  }
+
+  private async approvePermissionSet(
+    manifest: LoadedPluginManifest,
+  ): Promise<void> {
+    await this.approvals.set(manifest.id, {
+      version: manifest.version,
+      permissions: manifest.permissions,
+      approvedAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Start bridges for a set of manifests, skipping plugins that fail to start
+   */
+  private async startBridges(
+    manifests: LoadedPluginManifest[],
+  ): Promise<Map<string, PluginBridge>> {
+    const bridges = new Map<string, PluginBridge>();
+
+    for (const manifest of manifests) {
+      if (!manifest.enabled) {
+        console.log(`Plugin '${manifest.id}' is disabled, skipping`);
+        continue;
+      }
+      if (manifest.compatibility.rejected) continue;
+
+      const missing = this.missingDependencies(manifest, bridges);
+      if (missing.length > 0) {
+        console.error(
+          `Skipping plugin ${manifest.id}: dependencies not running (${missing.join(", ")})`,
+        );
+        continue;
+      }
 
-    for (const manifest of this.manifests) {
       try {
-        const bridge = new PluginWorkerBridge(manifest, this.sysCallHandler, {
-          hookTimeout: this.config.hookTimeout || 5000,
-          sysCallTimeout: 30000,
-        });
-
-        await bridge.start();
-        this.bridges.set(manifest.id, bridge);
-        console.log(`Loaded plugin: ${manifest.name} (${manifest.id})`);
+        if (!(await this.checkPermissions(manifest))) continue;
+        await this.warnMissingSecrets(manifest);
+        bridges.set(manifest.id, await this.startBridge(manifest));
       } catch (error) {
         console.error(`Failed to start plugin ${manifest.id}:`, error);
       }
     }
 
+    return bridges;
+  }
+
+  /**
+   * List dependencies of a plugin that have no running bridge
+   */
+  private missingDependencies(
+    manifest: LoadedPluginManifest,
+    bridges: Map<string, PluginBridge>,
+  ): string[] {
+    return Object.keys(manifest.dependencies).filter((id) => !bridges.has(id));
+  }
+
+  /**
+   * Stop a bridge once its in-flight hook calls have settled
+   */
+  private async retireBridge(
+    pluginId: string,
+    bridge: PluginBridge,
+  ): Promise<void> {
+    if (!this.bridges.has(pluginId)) {
+      this.supervisor.reset(pluginId);
+    }
+
+    try {
+      await bridge.drain();
+      await bridge.stop();
+      console.log(`Stopped plugin: ${pluginId}`);
+    } catch (error) {
+      console.error(`Error stopping plugin ${pluginId}:`, error);
+    }
+  }
+
+  /**
+   * Swap in a new plugin set, already in load order.
+   * Requests already running keep the runtime context they started with,
+   * so replaced bridges stay reachable until they are retired.
+   */
+  private commitPlugins(
+    manifests: LoadedPluginManifest[],
+    bridges: Map<string, PluginBridge>,
+  ): void {
+    this.manifests = manifests;
+    this.bridges = bridges;
+    for (const pluginId of this.quarantined.keys()) {
+      if (!manifests.some((manifest) => manifest.id === pluginId)) {
+        this.quarantined.delete(pluginId);
+      }
+    }
+    this.hooks = buildHookDispatchTable(manifests, bridges);
+    this.scheduler.sync(
+      getHookPlugins(this.getRuntimeContext(), "onSchedule"),
+    );
+    this.toolsCache = null;
+    this.skillsCache = null;
+    this.pluginsGeneration += 1;
+  }
+
+  /**
+   * Call a plugin's onSchedule hook for one of its jobs
+   */
+  private async runScheduledJob(
+    pluginId: string,
+    jobName: string,
+  ): Promise<void> {
+    const bridge = this.bridges.get(pluginId);
+    if (!bridge) {
+      throw new Error(`Plugin ${pluginId} is not running`);
+    }
+    if (!this.supervisor.tryAcquire(pluginId)) {
+      throw new Error(`Plugin ${pluginId} is unavailable`);
+    }
+    await bridge.callHook("onSchedule", jobName);
+  }
+
+  /**
+   * Run plugin reloads one at a time
+   */
+  private enqueueReload<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.reloadQueue.then(task);
+    this.reloadQueue = run.then(
+      () => undefined,
+      () => undefined,
+    );
+    return run;
+  }
+
+  /**
+   * Start the orchestrator and load all plugins
+   */
+  async start(): Promise<void> {
+    if (this.isStarted) {
+      throw new Error("Orchestrator already started");
+    }
+
+    console.log("Starting Frontclaw Orchestrator...");
+
+    const manifests = await this.loader.loadAll();
+    console.log(`Discovered ${manifests.length} plugins`);
+
+    this.commitPlugins(manifests, await this.startBridges(manifests));
     await this.warmCapabilities();
 
+    if (this.config.loader.watch) {
+      this.stopWatching = this.loader.watch((pluginPath) => {
+        this.enqueueReload(() => this.reloadFromPath(pluginPath)).catch(
+          (error) => {
+            console.error(`Failed to reload plugin at ${pluginPath}:`, error);
+          },
+        );
+      });
+      console.log(`Watching ${this.config.loader.pluginsDir} for changes`);
+    }
+
     this.isStarted = true;
     console.log(
       `Orchestrator started with ${this.bridges.size} active plugins`,
@@ -120,6 +475,10 @@ export class Orchestrator {
   async stop(): Promise<void> {
     console.log("Stopping Frontclaw Orchestrator...");
 
+    this.stopWatching?.();
+    this.stopWatching = null;
+    this.supervisor.stop();
+
     for (const [id, bridge] of this.bridges) {
       try {
         await bridge.stop();
@@ -129,42 +488,411 @@ export class Orchestrator {
       }
     }
 
-    this.bridges.clear();
-    this.manifests = [];
-    this.toolsCache = null;
-    this.skillsCache = null;
+    this.commitPlugins([], new Map());
     this.isStarted = false;
     console.log("Orchestrator stopped");
   }
 
-  async processPrompt(prompt: string): Promise<PipelineResult<string>> {
-    return processPromptPipeline(this.getRuntimeContext(), prompt);
+  /**
+   * Restart a single plugin with a freshly loaded manifest and worker.
+   * The old worker keeps serving in-flight calls until it is drained.
+   */
+  async reloadPlugin(pluginId: string): Promise<void> {
+    if (!this.isStarted) {
+      throw new Error("Orchestrator not started");
+    }
+
+    const manifest = this.getManifest(pluginId);
+    if (!manifest) {
+      throw new Error(`Plugin ${pluginId} is not loaded`);
+    }
+
+    await this.enqueueReload(() => this.reloadFromPath(manifest.pluginPath));
+  }
+
+  /**
+   * Rediscover and restart every plugin, one at a time, so a plugin whose
+   * new version fails to load or start keeps running the previous one
+   */
+  async reloadAll(): Promise<void> {
+    if (!this.isStarted) {
+      throw new Error("Orchestrator not started");
+    }
+
+    await this.enqueueReload(async () => {
+      // Loaded plugins first, in load order, then ones added since
+      const pluginPaths = new Set([
+        ...this.manifests.map((manifest) => manifest.pluginPath),
+        ...this.loader.discoverPluginPaths(),
+      ]);
+      for (const pluginPath of pluginPaths) {
+        await this.reloadFromPath(pluginPath);
+      }
+
+      console.log(`Reloaded ${this.bridges.size} active plugins`);
+    });
+  }
+
+  /**
+   * Install a plugin from the registry, replacing the installed version.
+   * The package is verified and unpacked next to the plugins, then swapped
+   * in and hot-loaded; if it doesn't load, the previous files are restored.
+   * A bundled plugin with the same ID is never replaced.
+   */
+  async installPlugin(
+    pluginId: string,
+    version?: string,
+  ): Promise<LoadedPluginManifest> {
+    if (!this.isStarted) {
+      throw new Error("Orchestrator not started");
+    }
+    if (!this.config.registry) {
+      throw new Error("No plugin registry configured");
+    }
+
+    const registry = new LocalPluginRegistry(this.config.registry.dir);
+    const entry = registry.resolve(pluginId, version);
+    const tarball = registry.readTarball(entry);
+    verifyPackage(tarball, entry, this.config.registry);
+    const files = readPackage(tarball);
+
+    return this.enqueueReload(async () => {
+      const pluginsDir = this.config.loader.pluginsDir;
+      const installed = this.getManifest(pluginId);
+      if (installed) this.assertInstalledFromRegistry(installed);
+      const target = installed?.pluginPath ?? path.join(pluginsDir, pluginId);
+      if (!installed && fs.existsSync(target)) {
+        throw new PluginPackageError(
+          "INVALID_PACKAGE",
+          `Cannot install ${pluginId}: ${target} already exists`,
+        );
+      }
+
+      // Dot-directories are ignored by the loader and the watcher
+      const staging = path.join(pluginsDir, `.install-${crypto.randomUUID()}`);
+      const backup = path.join(pluginsDir, `.backup-${crypto.randomUUID()}`);
+
+      try {
+        unpackPackage(files, staging);
+        writeInstallRecord(staging, entry);
+        const staged = await this.loader.loadPlugin(staging);
+        if (staged.id !== entry.id || staged.version !== entry.version) {
+          throw new PluginPackageError(
+            "INVALID_PACKAGE",
+            `Package contains ${staged.id}@${staged.version}, ` +
+              `expected ${entry.id}@${entry.version}`,
+          );
+        }
+        if (staged.compatibility.rejected) {
+          throw new PluginPackageError(
+            "INVALID_PACKAGE",
+            `Cannot install ${entry.id}@${entry.version}: ${staged.compatibility.reason}`,
+          );
+        }
+
+        if (installed) fs.renameSync(target, backup);
+        fs.renameSync(staging, target);
+        await this.reloadFromPath(target);
+
+        const loaded = this.getManifest(pluginId);
+        if (loaded?.version !== entry.version) {
+          fs.rmSync(target, { recursive: true, force: true });
+          if (installed) {
+            fs.renameSync(backup, target);
+            await this.reloadFromPath(target);
+          }
+          throw new Error(
+            `Plugin ${pluginId}@${entry.version} failed to load; see the server log`,
+          );
+        }
+
+        console.log(
+          `Installed plugin: ${loaded.name} (${loaded.id}@${loaded.version})`,
+        );
+        return loaded;
+      } finally {
+        fs.rmSync(staging, { recursive: true, force: true });
+        fs.rmSync(backup, { recursive: true, force: true });
+      }
+    });
   }
 
-  async transformSystemMessage(systemMessage: string): Promise<string> {
-    return transformSystemMessagePipeline(this.getRuntimeContext(), systemMessage);
+  /**
+   * Refuse to replace or delete a plugin that ships in the plugins
+   * directory rather than being installed from the registry
+   */
+  private assertInstalledFromRegistry(manifest: LoadedPluginManifest): void {
+    if (manifest.source !== "registry") {
+      throw new PluginPackageError(
+        "BUNDLED_PLUGIN",
+        `Plugin ${manifest.id} is bundled, not installed from the registry`,
+      );
+    }
+  }
+
+  /**
+   * Stop a plugin and delete its directory, and its tables if asked to.
+   * Only plugins installed from the registry can be uninstalled.
+   */
+  async uninstallPlugin(
+    pluginId: string,
+    options: PluginUninstallOptions = {},
+  ): Promise<void> {
+    if (!this.isStarted) {
+      throw new Error("Orchestrator not started");
+    }
+
+    await this.enqueueReload(async () => {
+      const manifest = this.getManifest(pluginId);
+      if (!manifest) {
+        throw new Error(`Plugin ${pluginId} is not loaded`);
+      }
+      this.assertInstalledFromRegistry(manifest);
+
+      // Move it aside first so the reload sees the plugin gone
+      const removed = path.join(
+        this.config.loader.pluginsDir,
+        `.uninstall-${crypto.randomUUID()}`,
+      );
+      fs.renameSync(manifest.pluginPath, removed);
+      try {
+        await this.reloadFromPath(manifest.pluginPath);
+      } finally {
+        fs.rmSync(removed, { recursive: true, force: true });
+      }
+
+      // A reinstall starts over: approval and settings are given again
+      await this.approvals.delete(pluginId);
+      await this.settings.delete(pluginId);
+
+      const tables = Object.values(manifest.tableNames);
+      if (options.dropTables && tables.length > 0) {
+        await this.config.dependencies.db.dropPluginTables(pluginId, tables);
+        console.log(
+          `Dropped tables of plugin ${pluginId}: ${tables.join(", ")}`,
+        );
+      }
+      console.log(`Uninstalled plugin: ${pluginId}`);
+    });
+  }
+
+  /**
+   * Enable, disable or reconfigure a plugin, and remember the change.
+   * A running plugin that implements onConfigChange gets new configuration
+   * in place; any other change restarts or stops the plugin.
+   */
+  async updatePluginSettings(
+    pluginId: string,
+    update: PluginSettingsUpdate,
+  ): Promise<LoadedPluginManifest> {
+    if (!this.isStarted) {
+      throw new Error("Orchestrator not started");
+    }
+
+    return this.enqueueReload(async () => {
+      const manifest = this.getManifest(pluginId);
+      if (!manifest) {
+        throw new Error(`Plugin ${pluginId} is not loaded`);
+      }
+
+      const current = await this.settings.get(pluginId);
+      const settings: PluginSettings = {
+        enabled: update.enabled ?? current?.enabled,
+        config: update.config
+          ? { ...current?.config, ...update.config }
+          : current?.config,
+        updatedAt: new Date().toISOString(),
+      };
+
+      // Throws a PluginLoadError listing the issues if the config is invalid
+      const config = this.loader.resolveConfig(
+        manifest,
+        manifest.pluginPath,
+        settings.config,
+      );
+      await this.settings.set(pluginId, settings);
+
+      const enabledChanged =
+        this.loader.isEnabled(manifest, settings) !== manifest.enabled;
+      const configChanged = !Bun.deepEquals(config, manifest.config);
+      const bridge = this.bridges.get(pluginId);
+
+      if (
+        !enabledChanged &&
+        configChanged &&
+        bridge?.capabilities?.hooks?.includes("onConfigChange")
+      ) {
+        try {
+          await bridge.updateConfig(config);
+          this.commitPlugins(
+            this.manifests.map((m) => (m === manifest ? { ...m, config } : m)),
+            this.bridges,
+          );
+          await this.warmCapabilities();
+          console.log(`Reconfigured plugin: ${manifest.name} (${pluginId})`);
+          return this.getManifest(pluginId)!;
+        } catch (error) {
+          console.error(
+            `Plugin ${pluginId} failed to apply its new config, restarting:`,
+            error,
+          );
+        }
+      }
+
+      if (enabledChanged || configChanged) {
+        await this.reloadFromPath(manifest.pluginPath);
+      }
+      return this.getManifest(pluginId) ?? manifest;
+    });
+  }
+
+  /**
+   * Load, replace or remove the plugin living in a directory.
+   * If the new version fails to load or start, the running one is kept.
+   */
+  private async reloadFromPath(pluginPath: string): Promise<void> {
+    const previous = this.manifests.find((m) => m.pluginPath === pluginPath);
+
+    let next: LoadedPluginManifest | null = null;
+    if (fs.existsSync(pluginPath)) {
+      try {
+        next = await this.loader.loadPlugin(pluginPath);
+      } catch (error) {
+        console.error(`Failed to reload plugin at ${pluginPath}:`, error);
+        return;
+      }
+    }
+
+    if (!previous && !next) return;
+
+    // Keep the running version rather than swap in one that won't start
+    if (next?.compatibility.rejected && previous) {
+      console.error(
+        `Failed to reload plugin ${next.id}: ${next.compatibility.reason}`,
+      );
+      return;
+    }
+
+    if (next && next.id !== previous?.id && this.getManifest(next.id)) {
+      console.error(
+        `Failed to reload plugin at ${pluginPath}: plugin id '${next.id}' is already loaded`,
+      );
+      return;
+    }
+
+    const candidates = this.manifests.filter((m) => m !== previous);
+    if (next) {
+      candidates.push(next);
+    }
+
+    const { plugins: manifests, errors } =
+      this.loader.resolveLoadOrder(candidates);
+    for (const error of errors) {
+      console.error(error.message);
+    }
+
+    // Keep the running version if the new one can't be placed in the graph
+    if (next && !manifests.includes(next)) return;
+
+    // Keep the other plugins running, except those depending on a plugin
+    // that is no longer running; start the new version and any plugins
+    // that were waiting for it
+    const bridges = new Map<string, PluginBridge>();
+    const started = new Set<string>();
+    for (const manifest of manifests) {
+      const running = this.bridges.get(manifest.id);
+      const waiting =
+        !running &&
+        Object.keys(manifest.dependencies).some((id) => started.has(id));
+
+      if (manifest !== next && !waiting) {
+        const stranded = this.missingDependencies(manifest, bridges);
+        if (running && stranded.length === 0) {
+          bridges.set(manifest.id, running);
+        }
+        continue;
+      }
+      if (!manifest.enabled || manifest.compatibility.rejected) continue;
+
+      const missing = this.missingDependencies(manifest, bridges);
+      if (missing.length > 0) {
+        console.error(
+          `Failed to start plugin ${manifest.id}: dependencies not running (${missing.join(", ")})`,
+        );
+        if (manifest === next) return;
+        continue;
+      }
+
+      try {
+        // A quarantined version replaces the running one without starting
+        if (await this.checkPermissions(manifest)) {
+          bridges.set(manifest.id, await this.startBridge(manifest));
+          started.add(manifest.id);
+        }
+      } catch (error) {
+        console.error(`Failed to start plugin ${manifest.id}:`, error);
+        if (manifest === next) return;
+      }
+    }
+
+    const retired = Array.from(this.bridges.entries()).filter(
+      ([id, bridge]) => bridges.get(id) !== bridge,
+    );
+
+    this.commitPlugins(manifests, bridges);
+    await this.warmCapabilities();
+
+    for (const [id, bridge] of retired) {
+      await this.retireBridge(id, bridge);
+    }
+
+    console.log(
+      next
+        ? `Reloaded plugin: ${next.name} (${next.id})`
+        : `Unloaded plugin: ${previous!.id}`,
+    );
+  }
+
+  async processPrompt(
+    prompt: string,
+    context?: HookContext,
+  ): Promise<PipelineResult<string>> {
+    return processPromptPipeline(this.getRuntimeContext(context), prompt);
+  }
+
+  async transformSystemMessage(
+    systemMessage: string,
+    context?: HookContext,
+  ): Promise<string> {
+    return transformSystemMessagePipeline(this.getRuntimeContext(context), systemMessage);
   }
 
   async beforeLLMCall(
     messages: ChatMessage[],
+    context?: HookContext,
   ): Promise<PipelineResult<ChatMessage[]>> {
-    return beforeLLMCallPipeline(this.getRuntimeContext(), messages);
+    return beforeLLMCallPipeline(this.getRuntimeContext(context), messages);
   }
 
-  async afterLLMCall(response: string): Promise<string> {
-    return afterLLMCallPipeline(this.getRuntimeContext(), response);
+  async afterLLMCall(response: string, context?: HookContext): Promise<string> {
+    return afterLLMCallPipeline(this.getRuntimeContext(context), response);
   }
 
   async collectTools(): Promise<ToolDefinition[]> {
     if (this.toolsCache) return [...this.toolsCache];
-    this.toolsCache = await collectToolsPipeline(this.getRuntimeContext());
-    return [...this.toolsCache];
+    const generation = this.pluginsGeneration;
+    const tools = await collectToolsPipeline(this.getRuntimeContext());
+    if (generation === this.pluginsGeneration) {
+      this.toolsCache = tools;
+    }
+    return [...tools];
   }
 
   async executeTool(
     toolName: string,
     args: Record<string, unknown>,
     options: { source: "llm" | "system" },
+    context?: HookContext,
   ): Promise<ToolResult> {
     if (options.source !== "llm") {
       return {
@@ -172,24 +900,32 @@ export class Orchestrator {
         error: "Tool execution denied: tools must be triggered by the LLM",
       };
     }
-    return executeToolPipeline(this.getRuntimeContext(), toolName, args);
+    return executeToolPipeline(this.getRuntimeContext(context), toolName, args);
   }
 
   async collectSkills(): Promise<SkillDefinition[]> {
     if (this.skillsCache) return [...this.skillsCache];
-    this.skillsCache = await collectSkillsPipeline(this.getRuntimeContext());
-    return [...this.skillsCache];
+    const generation = this.pluginsGeneration;
+    const skills = await collectSkillsPipeline(this.getRuntimeContext());
+    if (generation === this.pluginsGeneration) {
+      this.skillsCache = skills;
+    }
+    return [...skills];
   }
 
   async executeSkill(
     skillName: string,
     args: Record<string, unknown>,
+    context?: HookContext,
   ): Promise<SkillResult> {
-    return executeSkillPipeline(this.getRuntimeContext(), skillName, args);
+    return executeSkillPipeline(this.getRuntimeContext(context), skillName, args);
   }
 
-  async search(options: SearchOptions): Promise<unknown[]> {
-    return searchPipeline(this.getRuntimeContext(), options);
+  async search(
+    options: SearchOptions,
+    context?: HookContext,
+  ): Promise<unknown[]> {
+    return searchPipeline(this.getRuntimeContext(context), options);
   }
 
   async onSocketConnect(client: SocketClient): Promise<void> {
@@ -208,6 +944,32 @@ export class Orchestrator {
     await onSocketDisconnectPipeline(this.getRuntimeContext(), client);
   }
 
+  /**
+   * Publish an event to subscribed plugins without waiting for them.
+   * The Core publishes its own topics with the default source.
+   */
+  publishEvent(
+    topic: string,
+    payload: unknown,
+    source = "core",
+  ): PluginEvent {
+    if (!EVENT_TOPIC_PATTERN.test(topic)) {
+      throw new Error(
+        `Invalid event topic '${topic}': use dot-separated kebab-case segments`,
+      );
+    }
+
+    const event: PluginEvent = {
+      id: crypto.randomUUID(),
+      topic,
+      payload,
+      source,
+      publishedAt: new Date().toISOString(),
+    };
+    void dispatchEventPipeline(this.getRuntimeContext(), event);
+    return event;
+  }
+
   async routeHTTPRequest(
     pluginId: string,
     request: HTTPRequestContext,
@@ -222,6 +984,134 @@ export class Orchestrator {
     return [...this.manifests];
   }
 
+  /**
+   * Look up a plugin's secret; callers check the plugin declared it
+   */
+  async getSecret(pluginId: string, name: string): Promise<string | null> {
+    return this.secrets.get(pluginId, name);
+  }
+
+  /**
+   * Call the model for a plugin; callers check its llm permission
+   */
+  async llmGenerate(
+    pluginId: string,
+    options: LLMGenerateOptions,
+  ): Promise<LLMGenerateResult> {
+    const messages = this.toChatMessages(options);
+    const result = await this.trackLLMUsage(pluginId, () =>
+      this.getAIClient().chat({
+        messages,
+        systemPrompt: options.system,
+        maxTokens: options.maxTokens,
+        temperature: options.temperature,
+      }),
+    );
+    return {
+      text: result.content,
+      finishReason: result.finishReason,
+      usage: result.usage,
+    };
+  }
+
+  /**
+   * Call the model for output matching a JSON Schema
+   */
+  async llmGenerateStructured(
+    pluginId: string,
+    options: LLMStructuredOptions,
+  ): Promise<LLMStructuredResult> {
+    const messages = this.toChatMessages(options);
+    return this.trackLLMUsage(pluginId, () =>
+      this.getAIClient().generateJSON({
+        messages,
+        systemPrompt: options.system,
+        schema: options.schema,
+        schemaName: options.schemaName,
+        schemaDescription: options.schemaDescription,
+        maxTokens: options.maxTokens,
+        temperature: options.temperature,
+      }),
+    );
+  }
+
+  /**
+   * Compute embeddings for a plugin; callers check its llm permission
+   */
+  async llmEmbed(
+    pluginId: string,
+    options: LLMEmbedOptions,
+  ): Promise<LLMEmbedResult> {
+    return this.trackLLMUsage(pluginId, () =>
+      this.getAIClient().embed({
+        text: options.text,
+        dimensions: options.dimensions,
+      }),
+    );
+  }
+
+  /**
+   * Get the tokens a plugin has spent through ctx.llm
+   */
+  getPluginLLMUsage(pluginId: string): PluginLLMUsage {
+    return { ...(this.llmUsage.get(pluginId) ?? this.emptyLLMUsage()) };
+  }
+
+  private getAIClient(): AIClient {
+    if (!this.config.aiClient) throw new Error("LLM not available");
+    return this.config.aiClient;
+  }
+
+  private toChatMessages(options: LLMGenerateOptions): ChatMessage[] {
+    const messages: ChatMessage[] = [...(options.messages ?? [])];
+    if (options.prompt) {
+      messages.push({ role: "user", content: options.prompt });
+    }
+    if (messages.length === 0) {
+      throw new Error("Provide a prompt or messages to generate from");
+    }
+    return messages;
+  }
+
+  private emptyLLMUsage(): PluginLLMUsage {
+    return {
+      requests: 0,
+      failures: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      totalTokens: 0,
+      lastRequestAt: null,
+    };
+  }
+
+  /**
+   * Run a model call, adding its token usage to the plugin's totals
+   */
+  private async trackLLMUsage<
+    T extends { usage: Pick<LLMUsage, "promptTokens" | "totalTokens"> },
+  >(
+    pluginId: string,
+    call: () => Promise<T>,
+  ): Promise<T> {
+    const usage = this.llmUsage.get(pluginId) ?? this.emptyLLMUsage();
+    this.llmUsage.set(pluginId, usage);
+    usage.requests += 1;
+    usage.lastRequestAt = new Date().toISOString();
+
+    try {
+      const result = await call();
+      usage.promptTokens += result.usage.promptTokens;
+      // Embeddings only use prompt tokens
+      usage.completionTokens +=
+        (result.usage as Partial<LLMUsage>).completionTokens ?? 0;
+      usage.totalTokens += result.usage.totalTokens;
+      return result;
+    } catch (error) {
+      usage.failures += 1;
+      throw error;
+    }
+  }
+
   async memoryGet<T = unknown>(key: string): Promise<T | null> {
     return this.memory.get<T>(key);
   }
@@ -249,6 +1139,136 @@ export class Orchestrator {
     return this.memory.ttlSeconds ? this.memory.ttlSeconds(key) : null;
   }
 
+  /**
+   * Get the health of a loaded plugin
+   */
+  getPluginHealth(pluginId: string): PluginHealth | undefined {
+    const manifest = this.getManifest(pluginId);
+    if (!manifest) return undefined;
+
+    // Not running by choice, so nothing from an earlier run is an error
+    if (!manifest.enabled) {
+      return {
+        ...this.supervisor.getHealth(pluginId),
+        status: "disabled",
+        lastError: undefined,
+        lastViolation: undefined,
+      };
+    }
+
+    if (manifest.compatibility.rejected) {
+      return {
+        ...this.supervisor.getHealth(pluginId),
+        status: "incompatible",
+        lastError: manifest.compatibility.reason,
+      };
+    }
+
+    if (this.quarantined.has(pluginId)) {
+      return {
+        ...this.supervisor.getHealth(pluginId),
+        status: "quarantined",
+        lastError: "New permissions are awaiting approval",
+      };
+    }
+
+    if (!this.bridges.has(pluginId)) {
+      const missing = this.missingDependencies(manifest, this.bridges);
+      return {
+        ...this.supervisor.getHealth(pluginId),
+        status: "failed",
+        lastError:
+          missing.length > 0
+            ? `Dependencies not running: ${missing.join(", ")}`
+            : "Plugin failed to start",
+      };
+    }
+
+    return this.supervisor.getHealth(pluginId);
+  }
+
+  /**
+   * Get the protocol version, hooks, and syscalls a running plugin reported
+   */
+  getPluginCapabilities(pluginId: string): PluginCapabilities | null {
+    return this.bridges.get(pluginId)?.capabilities ?? null;
+  }
+
+  /**
+   * Get the status of a plugin's scheduled jobs
+   */
+  getPluginJobs(pluginId: string): JobStatus[] | undefined {
+    const manifest = this.getManifest(pluginId);
+    return manifest ? this.scheduler.getJobs(manifest) : undefined;
+  }
+
+  /**
+   * Get the secrets a plugin declares and which of them are set, never
+   * their values
+   */
+  async getPluginSecrets(
+    pluginId: string,
+  ): Promise<PluginSecretStatus[] | undefined> {
+    const manifest = this.getManifest(pluginId);
+    if (!manifest) return undefined;
+
+    return Promise.all(
+      manifest.secrets.map(async (secret) => ({
+        name: secret.name,
+        description: secret.description,
+        required: secret.required,
+        set: (await this.secrets.get(pluginId, secret.name)) !== null,
+      })),
+    );
+  }
+
+  /**
+   * Compare a plugin's requested permissions with the last approved set
+   */
+  async getPermissionReview(
+    pluginId: string,
+  ): Promise<PermissionReview | undefined> {
+    const manifest = this.getManifest(pluginId);
+    if (!manifest) return undefined;
+
+    const approved = await this.approvals.get(pluginId);
+    return {
+      pluginId,
+      version: manifest.version,
+      approved,
+      requested: manifest.permissions,
+      permissionsHash: hashPermissions(manifest.version, manifest.permissions),
+      changes: this.permissionChanges(manifest, approved),
+      quarantined: this.quarantined.has(pluginId),
+    };
+  }
+
+  /**
+   * Approve a plugin's current permissions and start it if it was
+   * quarantined. The hash from the review the admin saw must still match,
+   * so an upgrade or reload in between can't slip in other permissions.
+   */
+  async approvePermissions(
+    pluginId: string,
+    permissionsHash: string,
+  ): Promise<void> {
+    const manifest = this.getManifest(pluginId);
+    if (!manifest) {
+      throw new Error(`Plugin ${pluginId} is not loaded`);
+    }
+    if (
+      hashPermissions(manifest.version, manifest.permissions) !==
+      permissionsHash
+    ) {
+      throw new StalePermissionReviewError(pluginId);
+    }
+
+    await this.approvePermissionSet(manifest);
+    if (this.quarantined.has(pluginId)) {
+      await this.reloadPlugin(pluginId);
+    }
+  }
+
   /**
    * Get a specific plugin manifest
    */
@@ -264,4 +1284,4 @@ export class Orchestrator {
   }
 }
 
-export type { OrchestratorConfig, PipelineResult };
+export type { OrchestratorConfig, PermissionReview, PipelineResult };
@@ -0,0 +1,42 @@
+import type { PluginEvent } from "@workspace/plugin-sdk";
+import {
+  matchesTopic,
+  PermissionGuard,
+} from "../../bridge/permission-guard.js";
+import {
+  getAvailableBridge,
+  getHookPlugins,
+  type PluginRuntimeContext,
+} from "../runtime-context.js";
+
+/**
+ * Deliver an event to every subscribed plugin except its publisher.
+ * Subscribers run concurrently; their failures are logged, not returned.
+ */
+export async function dispatchEventPipeline(
+  runtime: PluginRuntimeContext,
+  event: PluginEvent,
+): Promise<void> {
+  const subscribers = getHookPlugins(runtime, "onEvent").filter(
+    (manifest) =>
+      manifest.id !== event.source &&
+      matchesTopic(event.topic, manifest.subscriptions) &&
+      new PermissionGuard(manifest).canSubscribe(event.topic),
+  );
+
+  await Promise.all(
+    subscribers.map(async (manifest) => {
+      const bridge = getAvailableBridge(runtime, manifest.id);
+      if (!bridge) return;
+
+      try {
+        await bridge.callHook("onEvent", event, runtime.hookContext);
+      } catch (error) {
+        console.error(
+          `Plugin ${manifest.id} failed onEvent (${event.topic}):`,
+          error,
+        );
+      }
+    }),
+  );
+}
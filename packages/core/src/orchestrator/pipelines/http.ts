@@ -1,6 +1,9 @@
 import type { HTTPRequestContext, HTTPResponse } from "@workspace/plugin-sdk";
 import { PermissionGuard } from "../../bridge/permission-guard.js";
-import type { PluginRuntimeContext } from "../runtime-context.js";
+import {
+  implementsHook,
+  type PluginRuntimeContext,
+} from "../runtime-context.js";
 
 const DEFAULT_SECURITY_HEADERS: Record<string, string> = {
   "Content-Security-Policy":
@@ -38,6 +41,7 @@ export async function routeHTTPRequestPipeline(
 
   const bridge = runtime.bridges.get(pluginId);
   if (!bridge) return null;
+  if (!implementsHook(runtime, pluginId, "onHTTPRequest")) return null;
 
   const apiPerm = manifest.permissions.api;
   if (!apiPerm) return null;
@@ -49,8 +53,15 @@ export async function routeHTTPRequestPipeline(
     return null;
   }
 
+  if (!runtime.tryAcquire(pluginId)) {
+    return applyDefaultSecurityHeaders({
+      status: 503,
+      body: { error: `Plugin ${pluginId} is temporarily unavailable` },
+    });
+  }
+
   try {
-    const response = await bridge.callHook<HTTPResponse>("onHTTPRequest", request);
+    const response = await bridge.callHook<HTTPResponse>("onHTTPRequest", request, runtime.hookContext);
     if (!response) return null;
     return applyDefaultSecurityHeaders(response);
   } catch (error) {
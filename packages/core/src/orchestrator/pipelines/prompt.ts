@@ -1,7 +1,11 @@
 import type { ChatMessage } from "@workspace/plugin-sdk";
 import { isInterceptResult } from "@workspace/plugin-sdk";
 import type { PipelineResult } from "../types.js";
-import type { PluginRuntimeContext } from "../runtime-context.js";
+import {
+  getAvailableBridge,
+  getHookPlugins,
+  type PluginRuntimeContext,
+} from "../runtime-context.js";
 
 export async function processPromptPipeline(
   runtime: PluginRuntimeContext,
@@ -9,14 +13,14 @@ export async function processPromptPipeline(
 ): Promise<PipelineResult<string>> {
   let currentPrompt = prompt;
 
-  for (const manifest of runtime.manifests) {
-    const bridge = runtime.bridges.get(manifest.id);
+  for (const manifest of getHookPlugins(runtime, "onPromptReceived")) {
+    const bridge = getAvailableBridge(runtime, manifest.id);
     if (!bridge) continue;
 
     if (!manifest.permissions.llm?.can_modify_prompt) continue;
 
     try {
-      const result = await bridge.callHook("onPromptReceived", currentPrompt);
+      const result = await bridge.callHook("onPromptReceived", currentPrompt, runtime.hookContext);
 
       if (result === undefined) continue;
 
@@ -51,14 +55,14 @@ export async function transformSystemMessagePipeline(
 ): Promise<string> {
   let currentMessage = systemMessage;
 
-  for (const manifest of runtime.manifests) {
-    const bridge = runtime.bridges.get(manifest.id);
+  for (const manifest of getHookPlugins(runtime, "transformSystemMessage")) {
+    const bridge = getAvailableBridge(runtime, manifest.id);
     if (!bridge) continue;
 
     if (!manifest.permissions.llm?.can_modify_system_message) continue;
 
     try {
-      const result = await bridge.callHook("transformSystemMessage", currentMessage);
+      const result = await bridge.callHook("transformSystemMessage", currentMessage, runtime.hookContext);
       if (typeof result === "string") {
         currentMessage = result;
       }
@@ -76,14 +80,14 @@ export async function beforeLLMCallPipeline(
 ): Promise<PipelineResult<ChatMessage[]>> {
   let currentMessages = messages;
 
-  for (const manifest of runtime.manifests) {
-    const bridge = runtime.bridges.get(manifest.id);
+  for (const manifest of getHookPlugins(runtime, "beforeLLMCall")) {
+    const bridge = getAvailableBridge(runtime, manifest.id);
     if (!bridge) continue;
 
     if (!manifest.permissions.llm?.can_intercept_task) continue;
 
     try {
-      const result = await bridge.callHook("beforeLLMCall", currentMessages);
+      const result = await bridge.callHook("beforeLLMCall", currentMessages, runtime.hookContext);
 
       if (result === undefined) continue;
 
@@ -118,14 +122,14 @@ export async function afterLLMCallPipeline(
 ): Promise<string> {
   let currentResponse = response;
 
-  for (const manifest of runtime.manifests) {
-    const bridge = runtime.bridges.get(manifest.id);
+  for (const manifest of getHookPlugins(runtime, "afterLLMCall")) {
+    const bridge = getAvailableBridge(runtime, manifest.id);
     if (!bridge) continue;
 
     if (!manifest.permissions.llm?.can_modify_response) continue;
 
     try {
-      const result = await bridge.callHook("afterLLMCall", currentResponse);
+      const result = await bridge.callHook("afterLLMCall", currentResponse, runtime.hookContext);
       if (typeof result === "string") {
         currentResponse = result;
       }
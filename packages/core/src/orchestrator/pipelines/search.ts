@@ -1,16 +1,24 @@
 import type { SearchOptions } from "@workspace/plugin-sdk";
-import type { PluginRuntimeContext } from "../runtime-context.js";
+import {
+  getAvailableBridge,
+  getHookPlugins,
+  type PluginRuntimeContext,
+} from "../runtime-context.js";
 
 export async function searchPipeline(
   runtime: PluginRuntimeContext,
   options: SearchOptions,
 ): Promise<unknown[]> {
-  for (const manifest of runtime.manifests) {
-    const bridge = runtime.bridges.get(manifest.id);
+  for (const manifest of getHookPlugins(runtime, "onSearch")) {
+    const bridge = getAvailableBridge(runtime, manifest.id);
     if (!bridge) continue;
 
     try {
-      const result = await bridge.callHook<unknown[]>("onSearch", options);
+      const result = await bridge.callHook<unknown[]>(
+        "onSearch",
+        options,
+        runtime.hookContext,
+      );
       if (Array.isArray(result) && result.length > 0) {
         return result;
       }
@@ -1,6 +1,11 @@
 import type { SkillDefinition, SkillResult } from "@workspace/plugin-sdk";
 import { PermissionGuard } from "../../bridge/permission-guard.js";
-import type { PluginRuntimeContext } from "../runtime-context.js";
+import {
+  getAvailableBridge,
+  getHookPlugins,
+  implementsHook,
+  type PluginRuntimeContext,
+} from "../runtime-context.js";
 import { parseNamespacedName } from "./namespaced.js";
 
 export async function collectSkillsPipeline(
@@ -8,8 +13,8 @@ export async function collectSkillsPipeline(
 ): Promise<SkillDefinition[]> {
   const skills: SkillDefinition[] = [];
 
-  for (const manifest of runtime.manifests) {
-    const bridge = runtime.bridges.get(manifest.id);
+  for (const manifest of getHookPlugins(runtime, "getSkills")) {
+    const bridge = getAvailableBridge(runtime, manifest.id);
     if (!bridge) continue;
 
     try {
@@ -17,6 +22,7 @@ export async function collectSkillsPipeline(
       const pluginSkills = await bridge.callHook<SkillDefinition[]>(
         "getSkills",
         undefined,
+        runtime.hookContext,
       );
       if (Array.isArray(pluginSkills)) {
         for (const skill of pluginSkills) {
@@ -56,6 +62,20 @@ export async function executeSkillPipeline(
     };
   }
 
+  if (!implementsHook(runtime, parsed.pluginId, "executeSkill")) {
+    return {
+      success: false,
+      error: `Plugin ${parsed.pluginId} does not provide skills`,
+    };
+  }
+
+  if (!runtime.tryAcquire(parsed.pluginId)) {
+    return {
+      success: false,
+      error: `Plugin ${parsed.pluginId} is temporarily unavailable`,
+    };
+  }
+
   const manifest = runtime.manifests.find((m) => m.id === parsed.pluginId);
   if (!manifest) {
     return {
@@ -70,7 +90,7 @@ export async function executeSkillPipeline(
     const result = await bridge.callHook<SkillResult>("executeSkill", {
       skillName: parsed.localName,
       args,
-    });
+    }, runtime.hookContext);
     return result || {
       success: false,
       error: "Skill returned no result",
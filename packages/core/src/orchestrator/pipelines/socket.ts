@@ -1,20 +1,24 @@
 import { isInterceptResult } from "@workspace/plugin-sdk";
 import type { SocketClient } from "@workspace/plugin-sdk";
 import type { PipelineResult } from "../types.js";
-import type { PluginRuntimeContext } from "../runtime-context.js";
+import {
+  getAvailableBridge,
+  getHookPlugins,
+  type PluginRuntimeContext,
+} from "../runtime-context.js";
 
 export async function onSocketConnectPipeline(
   runtime: PluginRuntimeContext,
   client: SocketClient,
 ): Promise<void> {
-  for (const manifest of runtime.manifests) {
-    const bridge = runtime.bridges.get(manifest.id);
+  for (const manifest of getHookPlugins(runtime, "onSocketConnect")) {
+    const bridge = getAvailableBridge(runtime, manifest.id);
     if (!bridge) continue;
 
     if (!manifest.permissions.socket?.can_intercept) continue;
 
     try {
-      await bridge.callHook("onSocketConnect", client);
+      await bridge.callHook("onSocketConnect", client, runtime.hookContext);
     } catch (error) {
       console.error(`Plugin ${manifest.id} failed onSocketConnect:`, error);
     }
@@ -27,8 +31,8 @@ export async function onSocketMessagePipeline(
   event: string,
   data: unknown,
 ): Promise<PipelineResult<unknown>> {
-  for (const manifest of runtime.manifests) {
-    const bridge = runtime.bridges.get(manifest.id);
+  for (const manifest of getHookPlugins(runtime, "onSocketMessage")) {
+    const bridge = getAvailableBridge(runtime, manifest.id);
     if (!bridge) continue;
 
     const socketPerm = manifest.permissions.socket;
@@ -43,11 +47,15 @@ export async function onSocketMessagePipeline(
     }
 
     try {
-      const result = await bridge.callHook("onSocketMessage", {
-        client,
-        event,
-        data,
-      });
+      const result = await bridge.callHook(
+        "onSocketMessage",
+        {
+          client,
+          event,
+          data,
+        },
+        runtime.hookContext,
+      );
 
       if (isInterceptResult(result)) {
         return {
@@ -76,14 +84,14 @@ export async function onSocketDisconnectPipeline(
   runtime: PluginRuntimeContext,
   client: SocketClient,
 ): Promise<void> {
-  for (const manifest of runtime.manifests) {
-    const bridge = runtime.bridges.get(manifest.id);
+  for (const manifest of getHookPlugins(runtime, "onSocketDisconnect")) {
+    const bridge = getAvailableBridge(runtime, manifest.id);
     if (!bridge) continue;
 
     if (!manifest.permissions.socket?.can_intercept) continue;
 
     try {
-      await bridge.callHook("onSocketDisconnect", client);
+      await bridge.callHook("onSocketDisconnect", client, runtime.hookContext);
     } catch (error) {
       console.error(`Plugin ${manifest.id} failed onSocketDisconnect:`, error);
     }
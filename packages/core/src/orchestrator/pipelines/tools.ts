@@ -1,5 +1,10 @@
 import type { ToolDefinition, ToolResult } from "@workspace/plugin-sdk";
-import type { PluginRuntimeContext } from "../runtime-context.js";
+import {
+  getAvailableBridge,
+  getHookPlugins,
+  implementsHook,
+  type PluginRuntimeContext,
+} from "../runtime-context.js";
 import { parseNamespacedName } from "./namespaced.js";
 
 export async function collectToolsPipeline(
@@ -7,14 +12,15 @@ export async function collectToolsPipeline(
 ): Promise<ToolDefinition[]> {
   const tools: ToolDefinition[] = [];
 
-  for (const manifest of runtime.manifests) {
-    const bridge = runtime.bridges.get(manifest.id);
+  for (const manifest of getHookPlugins(runtime, "getTools")) {
+    const bridge = getAvailableBridge(runtime, manifest.id);
     if (!bridge) continue;
 
     try {
       const pluginTools = await bridge.callHook<ToolDefinition[]>(
         "getTools",
         undefined,
+        runtime.hookContext,
       );
       if (Array.isArray(pluginTools)) {
         for (const tool of pluginTools) {
@@ -53,11 +59,29 @@ export async function executeToolPipeline(
     };
   }
 
+  if (!implementsHook(runtime, parsed.pluginId, "executeTool")) {
+    return {
+      success: false,
+      error: `Plugin ${parsed.pluginId} does not provide tools`,
+    };
+  }
+
+  if (!runtime.tryAcquire(parsed.pluginId)) {
+    return {
+      success: false,
+      error: `Plugin ${parsed.pluginId} is temporarily unavailable`,
+    };
+  }
+
   try {
-    const result = await bridge.callHook<ToolResult>("executeTool", {
-      toolName: parsed.localName,
-      args,
-    });
+    const result = await bridge.callHook<ToolResult>(
+      "executeTool",
+      {
+        toolName: parsed.localName,
+        args,
+      },
+      runtime.hookContext,
+    );
     return result || { success: false, error: "Tool returned no result" };
   } catch (error) {
     return {
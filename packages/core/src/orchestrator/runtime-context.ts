@@ -1,7 +1,95 @@
 import type { LoadedPluginManifest } from "@workspace/plugin-sdk";
-import type { PluginWorkerBridge } from "../bridge/index.js";
+import type { HookContext, PluginBridge } from "../bridge/index.js";
+import { sortByDependencies } from "../loader/index.js";
 
 export interface PluginRuntimeContext {
   manifests: LoadedPluginManifest[];
-  bridges: Map<string, PluginWorkerBridge>;
+  bridges: Map<string, PluginBridge>;
+  /** Which running plugins implement each hook */
+  hooks: HookDispatchTable;
+  /**
+   * Claim a call to the plugin if it is healthy enough to be called;
+   * a plugin recovering from failures gets one trial call at a time
+   */
+  tryAcquire: (pluginId: string) => boolean;
+  /** Passed with every hook call, for the syscalls the hook makes */
+  hookContext: HookContext;
+}
+
+/** Running plugins per hook, in pipeline order */
+export interface HookDispatchTable {
+  byHook: Map<string, LoadedPluginManifest[]>;
+  /** Plugins whose sandbox didn't report its hooks; called for every hook */
+  unreported: LoadedPluginManifest[];
+}
+
+/**
+ * Build the dispatch table from the hooks each sandbox reported at init.
+ * Every hook calls plugins after the plugins they depend on; among those
+ * free to go next, lower priority goes first (then lower ID), so pipeline
+ * order doesn't depend on the order plugins were loaded or reloaded in.
+ */
+export function buildHookDispatchTable(
+  manifests: LoadedPluginManifest[],
+  bridges: Map<string, PluginBridge>,
+): HookDispatchTable {
+  const running = sortByDependencies(
+    manifests.filter((manifest) => bridges.has(manifest.id)),
+  ).sorted;
+  const hooksOf = (manifest: LoadedPluginManifest) =>
+    bridges.get(manifest.id)!.capabilities?.hooks ?? null;
+
+  const byHook = new Map<string, LoadedPluginManifest[]>();
+  const hookNames = new Set(
+    running.flatMap((manifest) => hooksOf(manifest) ?? []),
+  );
+  for (const hook of hookNames) {
+    byHook.set(
+      hook,
+      running.filter((manifest) => {
+        const hooks = hooksOf(manifest);
+        return hooks === null || hooks.includes(hook);
+      }),
+    );
+  }
+
+  return {
+    byHook,
+    unreported: running.filter((manifest) => hooksOf(manifest) === null),
+  };
+}
+
+/**
+ * Get the plugins that implement a hook, in pipeline order
+ */
+export function getHookPlugins(
+  runtime: PluginRuntimeContext,
+  hook: string,
+): LoadedPluginManifest[] {
+  return runtime.hooks.byHook.get(hook) ?? runtime.hooks.unreported;
+}
+
+/**
+ * Whether a plugin implements a hook
+ */
+export function implementsHook(
+  runtime: PluginRuntimeContext,
+  pluginId: string,
+  hook: string,
+): boolean {
+  return getHookPlugins(runtime, hook).some(
+    (manifest) => manifest.id === pluginId,
+  );
+}
+
+/**
+ * Get a plugin's bridge, unless it is missing or marked unhealthy
+ */
+export function getAvailableBridge(
+  runtime: PluginRuntimeContext,
+  pluginId: string,
+): PluginBridge | undefined {
+  const bridge = runtime.bridges.get(pluginId);
+  if (!bridge || !runtime.tryAcquire(pluginId)) return undefined;
+  return bridge;
 }
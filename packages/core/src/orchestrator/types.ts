@@ -1,6 +1,20 @@
-import type { SysCallDependencies } from "../bridge/index.js";
-import type { LoaderConfig } from "../loader/index.js";
+import type { Permissions } from "@workspace/plugin-sdk";
+import type { AIClient } from "../ai/index.js";
+import type {
+  ProcessIsolation,
+  SupervisorConfig,
+  SysCallDependencies,
+} from "../bridge/index.js";
+import type {
+  ApprovedPermissions,
+  LoaderConfig,
+  PermissionApprovalStore,
+  PermissionChange,
+  PluginSettingsStore,
+} from "../loader/index.js";
 import type { MemoryService } from "../memory/index.js";
+import type { RegistryConfig } from "../registry/index.js";
+import type { SecretStore } from "../secrets/index.js";
 
 /** Orchestrator configuration */
 export interface OrchestratorConfig {
@@ -12,6 +26,56 @@ export interface OrchestratorConfig {
   memoryService?: MemoryService;
   /** Hook timeout in milliseconds */
   hookTimeout?: number;
+  /** Crash restart and circuit breaker settings */
+  supervisor?: Partial<SupervisorConfig>;
+  /** Confinement of plugins running as child processes */
+  processIsolation?: ProcessIsolation;
+  /**
+   * Where approved plugin permissions are kept (defaults to memory, so
+   * approvals only last until restart)
+   */
+  approvalStore?: PermissionApprovalStore;
+  /**
+   * Where plugin settings changed at runtime are kept (defaults to memory,
+   * so they only last until restart)
+   */
+  settingsStore?: PluginSettingsStore;
+  /** Local registry plugins can be installed from */
+  registry?: RegistryConfig;
+  /**
+   * Where the secrets plugins declare are looked up (defaults to environment
+   * variables)
+   */
+  secretStore?: SecretStore;
+  /** Model plugins call through ctx.llm (without one, those calls fail) */
+  aiClient?: AIClient;
+}
+
+/** A plugin's requested permissions next to the ones last approved */
+export interface PermissionReview {
+  pluginId: string;
+  version: string;
+  approved: ApprovedPermissions | null;
+  requested: Permissions;
+  /** Identifies the version and permissions reviewed; approving needs it */
+  permissionsHash: string;
+  /** Requested permissions beyond the approved set */
+  changes: PermissionChange[];
+  /** Whether the plugin is held back until the changes are approved */
+  quarantined: boolean;
+}
+
+/** Runtime changes to a plugin's settings */
+export interface PluginSettingsUpdate {
+  enabled?: boolean;
+  /** Keys to set, merged over the current runtime configuration */
+  config?: Record<string, unknown>;
+}
+
+/** How to uninstall a plugin */
+export interface PluginUninstallOptions {
+  /** Drop the tables the plugin owns; they are kept by default */
+  dropTables?: boolean;
 }
 
 /** Pipeline execution result */
@@ -25,3 +89,21 @@ export interface PipelineResult<T> {
     message: string;
   };
 }
+
+/** A secret a plugin declares, and whether the operator has set it */
+export interface PluginSecretStatus {
+  name: string;
+  description?: string;
+  required: boolean;
+  set: boolean;
+}
+
+/** Model calls a plugin has made since the Core started */
+export interface PluginLLMUsage {
+  requests: number;
+  failures: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  lastRequestAt: string | null;
+}
@@ -0,0 +1,25 @@
+/**
+ * Registry Module
+ * Re-exports plugin package and registry components
+ */
+
+export {
+  computeIntegrity,
+  INSTALL_RECORD_FILE,
+  packPluginDirectory,
+  PluginPackageError,
+  readPackage,
+  signPackage,
+  unpackPackage,
+  verifyPackage,
+  writeInstallRecord,
+  type PackageDigest,
+  type PackageTrustConfig,
+  type PluginPackageErrorCode,
+} from "./plugin-package.js";
+export {
+  LocalPluginRegistry,
+  type PublishKey,
+  type RegistryConfig,
+  type RegistryEntry,
+} from "./local-registry.js";
@@ -0,0 +1,162 @@
+/**
+ * Local Plugin Registry
+ * A directory of plugin packages with an index.json describing them
+ */
+
+import { PluginManifestSchema } from "@workspace/plugin-sdk";
+import fs from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+import {
+  computeIntegrity,
+  packPluginDirectory,
+  PluginPackageError,
+  readPackage,
+  signPackage,
+  type PackageTrustConfig,
+} from "./plugin-package.js";
+
+/** Where plugins are installed from and which publishers are trusted */
+export interface RegistryConfig extends PackageTrustConfig {
+  /** Registry directory containing index.json and the package tarballs */
+  dir: string;
+}
+
+const RegistryEntrySchema = z.object({
+  id: z.string(),
+  version: z.string(),
+  /** Tarball path, relative to the registry directory */
+  file: z.string(),
+  integrity: z.string().startsWith("sha256-"),
+  signature: z.string().optional(),
+  keyId: z.string().optional(),
+});
+
+const RegistryIndexSchema = z.object({
+  plugins: z.array(RegistryEntrySchema).default([]),
+});
+
+/** A package listed in the registry index */
+export type RegistryEntry = z.infer<typeof RegistryEntrySchema>;
+
+/** Key a publisher signs packages with */
+export interface PublishKey {
+  keyId: string;
+  /** Ed25519 private key (PEM) */
+  privateKey: string;
+}
+
+/**
+ * LocalPluginRegistry
+ * Resolves and reads packages from a registry directory
+ */
+export class LocalPluginRegistry {
+  constructor(private readonly registryDir: string) {}
+
+  private get indexPath(): string {
+    return path.join(this.registryDir, "index.json");
+  }
+
+  /**
+   * List every package in the index
+   */
+  list(): RegistryEntry[] {
+    if (!fs.existsSync(this.indexPath)) return [];
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(fs.readFileSync(this.indexPath, "utf-8"));
+    } catch (error) {
+      throw new Error(
+        `Invalid registry index '${this.indexPath}': ${(error as Error).message}`,
+      );
+    }
+
+    const result = RegistryIndexSchema.safeParse(raw);
+    if (!result.success) {
+      const issues = result.error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join(", ");
+      throw new Error(`Invalid registry index '${this.indexPath}': ${issues}`);
+    }
+    return result.data.plugins;
+  }
+
+  /**
+   * Find a package by plugin ID, taking the newest version unless one is given
+   */
+  resolve(pluginId: string, version?: string): RegistryEntry {
+    const candidates = this.list().filter(
+      (entry) =>
+        entry.id === pluginId && (!version || entry.version === version),
+    );
+    const newest = candidates.sort((a, b) =>
+      Bun.semver.order(b.version, a.version),
+    )[0];
+
+    if (!newest) {
+      throw new PluginPackageError(
+        "NOT_FOUND",
+        `Plugin ${pluginId}${version ? `@${version}` : ""} is not in the registry`,
+      );
+    }
+    return newest;
+  }
+
+  /**
+   * Read a package's tarball
+   */
+  readTarball(entry: RegistryEntry): Uint8Array {
+    const filePath = path.resolve(this.registryDir, entry.file);
+    if (!filePath.startsWith(path.resolve(this.registryDir) + path.sep)) {
+      throw new PluginPackageError(
+        "INVALID_PACKAGE",
+        `Package file is outside the registry: ${entry.file}`,
+      );
+    }
+    if (!fs.existsSync(filePath)) {
+      throw new PluginPackageError(
+        "NOT_FOUND",
+        `Package file not found: ${entry.file}`,
+      );
+    }
+    return fs.readFileSync(filePath);
+  }
+
+  /**
+   * Pack a plugin directory into the registry, signing it if a key is given
+   */
+  publish(pluginDir: string, key?: PublishKey): RegistryEntry {
+    const tarball = packPluginDirectory(pluginDir);
+    const manifestFile = readPackage(tarball).find(
+      (file) => file.path === "frontclaw.json",
+    )!;
+    const manifest = PluginManifestSchema.parse(
+      JSON.parse(new TextDecoder().decode(manifestFile.data)),
+    );
+
+    const entry: RegistryEntry = {
+      id: manifest.id,
+      version: manifest.version,
+      file: `${manifest.id}-${manifest.version}.tgz`,
+      integrity: computeIntegrity(tarball),
+      ...(key && {
+        signature: signPackage(tarball, key.privateKey),
+        keyId: key.keyId,
+      }),
+    };
+
+    fs.mkdirSync(this.registryDir, { recursive: true });
+    fs.writeFileSync(path.join(this.registryDir, entry.file), tarball);
+
+    const plugins = this.list().filter(
+      (existing) =>
+        existing.id !== entry.id || existing.version !== entry.version,
+    );
+    fs.writeFileSync(
+      this.indexPath,
+      JSON.stringify({ plugins: [...plugins, entry] }, null, 2),
+    );
+    return entry;
+  }
+}
@@ -0,0 +1,131 @@
+import { describe, expect, test } from "bun:test";
+import crypto from "node:crypto";
+import {
+  computeIntegrity,
+  readPackage,
+  signPackage,
+  verifyPackage,
+  type PluginPackageErrorCode,
+} from "./plugin-package.js";
+import { createTarball } from "./tar.js";
+
+const encoder = new TextEncoder();
+
+function generateKey() {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync("ed25519");
+  return {
+    publicKey: publicKey.export({ type: "spki", format: "pem" }).toString(),
+    privateKey: privateKey.export({ type: "pkcs8", format: "pem" }).toString(),
+  };
+}
+
+const publisher = generateKey();
+const stranger = generateKey();
+
+const tarball = createTarball([
+  { path: "frontclaw.json", data: encoder.encode('{"id":"hello"}') },
+  { path: "README.md", data: encoder.encode("# Hello") },
+]);
+const integrity = computeIntegrity(tarball);
+const signature = signPackage(tarball, publisher.privateKey);
+
+function expectRejected(check: () => void, code: PluginPackageErrorCode) {
+  expect(check).toThrow(expect.objectContaining({ code }));
+}
+
+describe("verifyPackage", () => {
+  const trust = { trustedKeys: { publisher: publisher.publicKey } };
+
+  test("accepts a package signed by a trusted key", () => {
+    verifyPackage(tarball, { integrity, signature, keyId: "publisher" }, trust);
+    verifyPackage(tarball, { integrity, signature }, trust);
+  });
+
+  test("rejects a package that doesn't match its integrity hash", () => {
+    const tampered = createTarball([
+      { path: "frontclaw.json", data: encoder.encode('{"id":"evil"}') },
+      { path: "README.md", data: encoder.encode("# Hello") },
+    ]);
+    expectRejected(
+      () => verifyPackage(tampered, { integrity, signature }, trust),
+      "INTEGRITY_MISMATCH",
+    );
+    expectRejected(
+      () => verifyPackage(tarball, { integrity: "sha256-x", signature }, trust),
+      "INTEGRITY_MISMATCH",
+    );
+  });
+
+  test("rejects unsigned packages only when signatures are required", () => {
+    verifyPackage(tarball, { integrity }, trust);
+    expectRejected(
+      () =>
+        verifyPackage(
+          tarball,
+          { integrity },
+          { ...trust, requireSignature: true },
+        ),
+      "UNSIGNED",
+    );
+  });
+
+  test("rejects signatures from keys that aren't trusted", () => {
+    const foreign = signPackage(tarball, stranger.privateKey);
+    expectRejected(
+      () => verifyPackage(tarball, { integrity, signature: foreign }, trust),
+      "UNTRUSTED_SIGNATURE",
+    );
+    expectRejected(
+      () =>
+        verifyPackage(
+          tarball,
+          { integrity, signature: foreign, keyId: "stranger" },
+          trust,
+        ),
+      "UNTRUSTED_SIGNATURE",
+    );
+    expectRejected(
+      () => verifyPackage(tarball, { integrity, signature }, {}),
+      "UNTRUSTED_SIGNATURE",
+    );
+  });
+
+  test("rejects a trusted key's signature of a different tarball", () => {
+    const other = createTarball([
+      { path: "README.md", data: encoder.encode("# Other") },
+    ]);
+    const otherSignature = signPackage(other, publisher.privateKey);
+    expectRejected(
+      () =>
+        verifyPackage(
+          tarball,
+          { integrity, signature: otherSignature, keyId: "publisher" },
+          trust,
+        ),
+      "UNTRUSTED_SIGNATURE",
+    );
+  });
+});
+
+describe("readPackage", () => {
+  test("lists a package's files", () => {
+    expect(readPackage(tarball).map((file) => file.path)).toEqual([
+      "frontclaw.json",
+      "README.md",
+    ]);
+  });
+
+  test("rejects packages missing required files", () => {
+    const noReadme = createTarball([
+      { path: "frontclaw.json", data: encoder.encode("{}") },
+    ]);
+    expectRejected(() => readPackage(noReadme), "INVALID_PACKAGE");
+  });
+
+  test("rejects archives that aren't gzipped tarballs", () => {
+    expectRejected(
+      () => readPackage(encoder.encode("not a tarball")),
+      "INVALID_PACKAGE",
+    );
+  });
+});
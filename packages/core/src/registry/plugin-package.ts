@@ -0,0 +1,211 @@
+/**
+ * Plugin Packages
+ * Gzipped tarballs of a plugin directory, checked against an integrity
+ * hash and, optionally, a signature from a trusted publisher key
+ */
+
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { createTarball, readTarball, type TarFile } from "./tar.js";
+
+/** Largest unpacked package accepted (bytes) */
+const MAX_PACKAGE_BYTES = 50 * 1024 * 1024;
+
+/** Files every package must contain at its root */
+const REQUIRED_FILES = ["frontclaw.json", "README.md"];
+
+/** File in an installed plugin's directory naming the package it came from */
+export const INSTALL_RECORD_FILE = ".frontclaw-install.json";
+
+/** Why a package was rejected */
+export type PluginPackageErrorCode =
+  | "NOT_FOUND"
+  | "INTEGRITY_MISMATCH"
+  | "UNSIGNED"
+  | "UNTRUSTED_SIGNATURE"
+  | "INVALID_PACKAGE"
+  /** The plugin ships in the plugins directory, so packages can't touch it */
+  | "BUNDLED_PLUGIN";
+
+/** Plugin package error */
+export class PluginPackageError extends Error {
+  constructor(
+    public readonly code: PluginPackageErrorCode,
+    message: string,
+  ) {
+    super(message);
+    this.name = "PluginPackageError";
+  }
+}
+
+/** How packages are checked before they are installed */
+export interface PackageTrustConfig {
+  /** Publisher public keys (PEM), by key ID */
+  trustedKeys?: Record<string, string>;
+  /** Reject packages without a signature */
+  requireSignature?: boolean;
+}
+
+/** What a registry says about a package */
+export interface PackageDigest {
+  /** Subresource-integrity style hash of the tarball ("sha256-<base64>") */
+  integrity: string;
+  /** Base64 Ed25519 signature of the tarball */
+  signature?: string;
+  /** Key that made the signature; all trusted keys are tried without it */
+  keyId?: string;
+}
+
+/**
+ * Compute the integrity hash of a tarball
+ */
+export function computeIntegrity(tarball: Uint8Array): string {
+  const digest = crypto.createHash("sha256").update(tarball).digest("base64");
+  return `sha256-${digest}`;
+}
+
+/**
+ * Sign a tarball with a publisher's Ed25519 private key (PEM)
+ */
+export function signPackage(tarball: Uint8Array, privateKey: string): string {
+  return crypto.sign(null, tarball, privateKey).toString("base64");
+}
+
+/**
+ * Check a tarball's integrity hash and signature
+ */
+export function verifyPackage(
+  tarball: Uint8Array,
+  digest: PackageDigest,
+  trust: PackageTrustConfig,
+): void {
+  const expected = Buffer.from(digest.integrity);
+  const actual = Buffer.from(computeIntegrity(tarball));
+  if (
+    expected.length !== actual.length ||
+    !crypto.timingSafeEqual(expected, actual)
+  ) {
+    throw new PluginPackageError(
+      "INTEGRITY_MISMATCH",
+      `Package integrity check failed (expected ${digest.integrity})`,
+    );
+  }
+
+  if (!digest.signature) {
+    if (trust.requireSignature) {
+      throw new PluginPackageError("UNSIGNED", "Package is not signed");
+    }
+    return;
+  }
+
+  const trustedKeys = trust.trustedKeys ?? {};
+  const candidates = digest.keyId
+    ? [trustedKeys[digest.keyId]].filter((key) => key !== undefined)
+    : Object.values(trustedKeys);
+  const signature = Buffer.from(digest.signature, "base64");
+
+  const trusted = candidates.some((key) => {
+    try {
+      return crypto.verify(null, tarball, key, signature);
+    } catch {
+      return false;
+    }
+  });
+  if (!trusted) {
+    throw new PluginPackageError(
+      "UNTRUSTED_SIGNATURE",
+      digest.keyId && !trustedKeys[digest.keyId]
+        ? `Package is signed with unknown key '${digest.keyId}'`
+        : "Package signature does not match a trusted key",
+    );
+  }
+}
+
+/**
+ * List a package's files, checking it has what a plugin needs
+ */
+export function readPackage(tarball: Uint8Array): TarFile[] {
+  let files: TarFile[];
+  try {
+    files = readTarball(tarball, MAX_PACKAGE_BYTES);
+  } catch (error) {
+    throw new PluginPackageError(
+      "INVALID_PACKAGE",
+      `Invalid package: ${(error as Error).message}`,
+    );
+  }
+
+  const missing = REQUIRED_FILES.filter(
+    (name) => !files.some((file) => file.path === name),
+  );
+  if (missing.length > 0) {
+    throw new PluginPackageError(
+      "INVALID_PACKAGE",
+      `Invalid package: missing ${missing.join(", ")}`,
+    );
+  }
+  return files;
+}
+
+/**
+ * Write a package's files into an empty directory
+ */
+export function unpackPackage(files: TarFile[], targetDir: string): void {
+  for (const file of files) {
+    const filePath = path.join(targetDir, file.path);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, file.data);
+  }
+}
+
+/**
+ * Record in an installed plugin's directory which package it came from.
+ * The loader treats plugins with a record as third-party code.
+ */
+export function writeInstallRecord(
+  pluginDir: string,
+  entry: { id: string; version: string; integrity: string },
+): void {
+  fs.writeFileSync(
+    path.join(pluginDir, INSTALL_RECORD_FILE),
+    JSON.stringify(
+      {
+        id: entry.id,
+        version: entry.version,
+        integrity: entry.integrity,
+        installedAt: new Date().toISOString(),
+      },
+      null,
+      2,
+    ),
+  );
+}
+
+/**
+ * Create a package from a plugin directory, leaving out dependencies and
+ * hidden files
+ */
+export function packPluginDirectory(pluginDir: string): Uint8Array {
+  const files: TarFile[] = [];
+
+  const walk = (dir: string) => {
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      if (entry.name.startsWith(".") || entry.name === "node_modules") {
+        continue;
+      }
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        walk(entryPath);
+      } else if (entry.isFile()) {
+        files.push({
+          path: path.relative(pluginDir, entryPath).split(path.sep).join("/"),
+          data: fs.readFileSync(entryPath),
+        });
+      }
+    }
+  };
+  walk(pluginDir);
+
+  return createTarball(files);
+}
@@ -0,0 +1,76 @@
+import { describe, expect, test } from "bun:test";
+import zlib from "node:zlib";
+import { createTarball, readTarball } from "./tar.js";
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const file = (path: string, text: string) => ({
+  path,
+  data: encoder.encode(text),
+});
+
+/** An archive with one entry whose header fields are overwritten */
+function tarballWith(fields: { name?: string; type?: string }): Uint8Array {
+  const tar = zlib.gunzipSync(createTarball([file("placeholder", "x")]));
+  if (fields.name !== undefined) {
+    tar.fill(0, 0, 100);
+    tar.set(encoder.encode(fields.name), 0);
+  }
+  if (fields.type !== undefined) {
+    tar[156] = fields.type.charCodeAt(0);
+  }
+  return zlib.gzipSync(tar);
+}
+
+describe("tar", () => {
+  test("reads back the files it writes", () => {
+    const longPath = `${"nested/".repeat(20)}file.txt`;
+    const files = readTarball(
+      createTarball([
+        file("frontclaw.json", "{}"),
+        file("./src/index.ts", "export {};"),
+        file(longPath, "deep"),
+      ]),
+      1024 * 1024,
+    );
+
+    expect(files.map((f) => f.path)).toEqual([
+      "frontclaw.json",
+      "src/index.ts",
+      longPath,
+    ]);
+    expect(files.map((f) => decoder.decode(f.data))).toEqual([
+      "{}",
+      "export {};",
+      "deep",
+    ]);
+  });
+
+  test("rejects archives over the unpacked size limit", () => {
+    const archive = createTarball([file("big.txt", "a".repeat(100_000))]);
+    expect(archive.length).toBeLessThan(10_000);
+    expect(() => readTarball(archive, 10_000)).toThrow(
+      "Archive is larger than 10000 bytes unpacked",
+    );
+  });
+
+  test("rejects entries outside the package", () => {
+    for (const name of ["../evil", "/etc/passwd", "a/../../evil"]) {
+      expect(() => readTarball(tarballWith({ name }), 1024 * 1024)).toThrow(
+        "Archive entry escapes the package",
+      );
+    }
+    expect(() => createTarball([file("../evil", "x")])).toThrow(
+      "Archive entry escapes the package",
+    );
+  });
+
+  test("rejects links and special files", () => {
+    for (const type of ["1", "2", "3", "6"]) {
+      expect(() => readTarball(tarballWith({ type }), 1024 * 1024)).toThrow(
+        "Unsupported archive entry type",
+      );
+    }
+  });
+});
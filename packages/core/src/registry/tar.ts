@@ -0,0 +1,193 @@
+/**
+ * Tar Archives
+ * Minimal gzipped tar reader and writer for plugin packages.
+ * Only regular files and directories are supported; links and special
+ * files are rejected so a package can't point outside its directory.
+ */
+
+import path from "node:path";
+import zlib from "node:zlib";
+
+const BLOCK_SIZE = 512;
+
+/** A regular file in an archive */
+export interface TarFile {
+  /** Relative path using forward slashes */
+  path: string;
+  data: Uint8Array;
+}
+
+const decoder = new TextDecoder();
+const encoder = new TextEncoder();
+
+function readString(block: Uint8Array, offset: number, length: number): string {
+  const field = block.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return decoder.decode(end === -1 ? field : field.subarray(0, end));
+}
+
+function readOctal(block: Uint8Array, offset: number, length: number): number {
+  const value = readString(block, offset, length).trim();
+  return value ? parseInt(value, 8) : 0;
+}
+
+/**
+ * Read the "path" record of a pax extended header
+ */
+function readPaxPath(data: Uint8Array): string | undefined {
+  for (const record of decoder.decode(data).split("\n")) {
+    const match = record.match(/^\d+ path=(.*)$/);
+    if (match) return match[1];
+  }
+  return undefined;
+}
+
+/**
+ * Turn an archive path into a safe relative path, or throw
+ */
+function normalizeEntryPath(name: string): string {
+  const normalized = path.posix.normalize(name.replace(/^(\.\/)+/, ""));
+  if (
+    path.posix.isAbsolute(normalized) ||
+    normalized === ".." ||
+    normalized.startsWith("../")
+  ) {
+    throw new Error(`Archive entry escapes the package: ${name}`);
+  }
+  return normalized.replace(/\/$/, "");
+}
+
+/**
+ * List the regular files of a gzipped tar archive of at most maxBytes
+ * unpacked
+ */
+export function readTarball(archive: Uint8Array, maxBytes: number): TarFile[] {
+  // Inflated in chunks that stop at maxBytes, so a gzip bomb never expands
+  // in memory
+  let tar: Uint8Array;
+  try {
+    tar = zlib.gunzipSync(archive, { maxOutputLength: maxBytes });
+  } catch (error) {
+    if ((error as { code?: string }).code === "ERR_BUFFER_TOO_LARGE") {
+      throw new Error(`Archive is larger than ${maxBytes} bytes unpacked`);
+    }
+    throw error;
+  }
+
+  const files: TarFile[] = [];
+  let nextPath: string | undefined;
+  let offset = 0;
+
+  while (offset + BLOCK_SIZE <= tar.length) {
+    const header = tar.subarray(offset, offset + BLOCK_SIZE);
+    // Two zero blocks end the archive; one is enough to stop reading
+    if (header.every((byte) => byte === 0)) break;
+
+    const size = readOctal(header, 124, 12);
+    const type = String.fromCharCode(header[156]!);
+    const data = tar.subarray(offset + BLOCK_SIZE, offset + BLOCK_SIZE + size);
+    offset += BLOCK_SIZE + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+
+    const prefix = readString(header, 345, 155);
+    const name =
+      nextPath ?? (prefix ? `${prefix}/` : "") + readString(header, 0, 100);
+    nextPath = undefined;
+
+    switch (type) {
+      case "0":
+      case "\0":
+        files.push({ path: normalizeEntryPath(name), data });
+        break;
+      case "5":
+        normalizeEntryPath(name);
+        break;
+      case "x":
+        nextPath = readPaxPath(data);
+        break;
+      case "L":
+        nextPath = readString(data, 0, data.length);
+        break;
+      case "g":
+        break;
+      default:
+        throw new Error(`Unsupported archive entry type '${type}': ${name}`);
+    }
+  }
+
+  return files;
+}
+
+function writeString(
+  block: Uint8Array,
+  value: string,
+  offset: number,
+  length: number,
+): void {
+  block.set(encoder.encode(value).subarray(0, length), offset);
+}
+
+function writeOctal(
+  block: Uint8Array,
+  value: number,
+  offset: number,
+  length: number,
+): void {
+  writeString(
+    block,
+    value.toString(8).padStart(length - 1, "0"),
+    offset,
+    length,
+  );
+}
+
+/**
+ * Split a path into ustar name and prefix fields
+ */
+function splitEntryPath(entryPath: string): { name: string; prefix: string } {
+  if (encoder.encode(entryPath).length <= 100) {
+    return { name: entryPath, prefix: "" };
+  }
+
+  const slash = entryPath.lastIndexOf("/", 155);
+  const name = entryPath.slice(slash + 1);
+  if (slash === -1 || encoder.encode(name).length > 100) {
+    throw new Error(`Path too long for a package: ${entryPath}`);
+  }
+  return { name, prefix: entryPath.slice(0, slash) };
+}
+
+/**
+ * Create a gzipped ustar archive of regular files
+ */
+export function createTarball(files: TarFile[]): Uint8Array {
+  const blocks: Uint8Array[] = [];
+
+  for (const file of files) {
+    const header = new Uint8Array(BLOCK_SIZE);
+    const { name, prefix } = splitEntryPath(normalizeEntryPath(file.path));
+
+    writeString(header, name, 0, 100);
+    writeOctal(header, 0o644, 100, 8);
+    writeOctal(header, 0, 108, 8);
+    writeOctal(header, 0, 116, 8);
+    writeOctal(header, file.data.length, 124, 12);
+    writeOctal(header, 0, 136, 12);
+    header.fill(0x20, 148, 156);
+    header[156] = "0".charCodeAt(0);
+    writeString(header, "ustar\u000000", 257, 8);
+    writeString(header, prefix, 345, 155);
+
+    const checksum = header.reduce((sum, byte) => sum + byte, 0);
+    writeString(header, `${checksum.toString(8).padStart(6, "0")}\0 `, 148, 8);
+
+    blocks.push(header);
+    const padded = new Uint8Array(
+      Math.ceil(file.data.length / BLOCK_SIZE) * BLOCK_SIZE,
+    );
+    padded.set(file.data);
+    blocks.push(padded);
+  }
+
+  blocks.push(new Uint8Array(BLOCK_SIZE * 2));
+  return Bun.gzipSync(Buffer.concat(blocks));
+}
@@ -0,0 +1,104 @@
+import { describe, expect, test } from "bun:test";
+import { nextCronTime, parseCron } from "./cron.js";
+
+/** Local time, since schedules run in the server's time zone */
+const at = (month: number, day: number, hour: number, minute: number) =>
+  new Date(2026, month - 1, day, hour, minute);
+
+const next = (expression: string, after: Date) =>
+  nextCronTime(parseCron(expression), after);
+
+describe("parseCron", () => {
+  test("parses lists, ranges and steps", () => {
+    const schedule = parseCron("1,5-7,50-59/5 */6 * * *");
+    expect([...schedule.minutes]).toEqual([1, 5, 6, 7, 50, 55]);
+    expect([...schedule.hours]).toEqual([0, 6, 12, 18]);
+  });
+
+  test("reads a value with a step as a start", () => {
+    expect([...parseCron("45/5 * * * *").minutes]).toEqual([45, 50, 55]);
+  });
+
+  test("parses month and day names", () => {
+    const schedule = parseCron("0 0 * jan-mar mon,FRI");
+    expect([...schedule.months]).toEqual([1, 2, 3]);
+    expect([...schedule.daysOfWeek]).toEqual([1, 5]);
+  });
+
+  test("treats day of week 7 as Sunday", () => {
+    expect([...parseCron("0 0 * * 7").daysOfWeek]).toEqual([0]);
+  });
+
+  test("expands aliases", () => {
+    expect(parseCron("@daily")).toEqual(parseCron("0 0 * * *"));
+    expect(parseCron("@HOURLY")).toEqual(parseCron("0 * * * *"));
+  });
+
+  test("matches either day field only when both are restricted", () => {
+    expect(parseCron("0 0 1 * mon").eitherDay).toBe(true);
+    expect(parseCron("0 0 1 * *").eitherDay).toBe(false);
+    expect(parseCron("0 0 * * mon").eitherDay).toBe(false);
+  });
+
+  test("rejects invalid expressions", () => {
+    for (const expression of [
+      "* * * *",
+      "60 * * * *",
+      "* 24 * * *",
+      "* * 0 * *",
+      "* * * 13 *",
+      "10-5 * * * *",
+      "*/0 * * * *",
+      "1/2/3 * * * *",
+      "x * * * *",
+      "-1 * * * *",
+    ]) {
+      expect(() => parseCron(expression)).toThrow("Invalid cron expression");
+    }
+  });
+});
+
+describe("nextCronTime", () => {
+  test("finds the next matching minute", () => {
+    expect(next("*/15 * * * *", at(1, 5, 10, 7))).toEqual(at(1, 5, 10, 15));
+    expect(next("30 9 * * *", at(1, 5, 10, 0))).toEqual(at(1, 6, 9, 30));
+  });
+
+  test("is strictly after the given time", () => {
+    expect(next("0 * * * *", at(1, 5, 10, 0))).toEqual(at(1, 5, 11, 0));
+  });
+
+  test("ignores seconds", () => {
+    const after = new Date(2026, 0, 5, 10, 7, 59, 999);
+    expect(next("* * * * *", after)).toEqual(at(1, 5, 10, 8));
+  });
+
+  test("rolls over months and years", () => {
+    expect(next("0 0 1 * *", at(1, 31, 12, 0))).toEqual(at(2, 1, 0, 0));
+    expect(next("@yearly", at(6, 1, 0, 0))).toEqual(new Date(2027, 0, 1, 0, 0));
+  });
+
+  test("matches days of the week", () => {
+    // 5 January 2026 is a Monday
+    expect(next("0 8 * * fri", at(1, 5, 0, 0))).toEqual(at(1, 9, 8, 0));
+    expect(next("0 8 * * 7", at(1, 5, 0, 0))).toEqual(at(1, 11, 8, 0));
+  });
+
+  test("matches either day when both are restricted", () => {
+    // The 15th, or the Friday before it
+    expect(next("0 0 15 * fri", at(1, 5, 0, 0))).toEqual(at(1, 9, 0, 0));
+    expect(next("0 0 15 * fri", at(1, 12, 0, 0))).toEqual(at(1, 15, 0, 0));
+  });
+
+  test("finds leap days", () => {
+    expect(next("0 0 29 2 *", at(3, 1, 0, 0))).toEqual(
+      new Date(2028, 1, 29, 0, 0),
+    );
+  });
+
+  test("throws for dates that never come", () => {
+    expect(() => next("0 0 31 2 *", at(1, 1, 0, 0))).toThrow(
+      "Cron expression never matches",
+    );
+  });
+});
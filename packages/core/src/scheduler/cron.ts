@@ -0,0 +1,204 @@
+/**
+ * Cron Expressions
+ * Parses five-field cron expressions and finds their next run time,
+ * in the server's local time zone
+ */
+
+/** A parsed cron expression */
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  /** 0 = Sunday */
+  daysOfWeek: Set<number>;
+  /**
+   * Both day fields are restricted, so a day matches if either does
+   * (as in Vixie cron)
+   */
+  eitherDay: boolean;
+}
+
+const ALIASES: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+interface CronField {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const FIELDS: CronField[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  {
+    name: "month",
+    min: 1,
+    max: 12,
+    names: [
+      "jan",
+      "feb",
+      "mar",
+      "apr",
+      "may",
+      "jun",
+      "jul",
+      "aug",
+      "sep",
+      "oct",
+      "nov",
+      "dec",
+    ],
+  },
+  // 7 is accepted as Sunday too
+  {
+    name: "day of week",
+    min: 0,
+    max: 7,
+    names: ["sun", "mon", "tue", "wed", "thu", "fri", "sat"],
+  },
+];
+
+/** How far ahead to look before deciding an expression never matches */
+const MAX_LOOKAHEAD_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+function parseValue(text: string, field: CronField): number {
+  const named = field.names?.indexOf(text.toLowerCase()) ?? -1;
+  const value = named >= 0 ? named + field.min : Number(text);
+  if (!/^\w+$/.test(text) || !Number.isInteger(value)) {
+    throw new Error(`invalid ${field.name} '${text}'`);
+  }
+  if (value < field.min || value > field.max) {
+    throw new Error(
+      `${field.name} ${value} is outside ${field.min}-${field.max}`,
+    );
+  }
+  return value;
+}
+
+/**
+ * Parse one field: lists of values, ranges and steps ("1,5-10,20-40/5")
+ */
+function parseField(text: string, field: CronField): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of text.split(",")) {
+    const [range = "", stepText, extra] = part.split("/");
+    if (extra !== undefined) {
+      throw new Error(`invalid ${field.name} '${part}'`);
+    }
+
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step <= 0) {
+      throw new Error(`invalid step in ${field.name} '${part}'`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      start = field.min;
+      end = field.max;
+    } else if (range.includes("-")) {
+      const [from = "", to = ""] = range.split("-");
+      start = parseValue(from, field);
+      end = parseValue(to, field);
+      if (start > end) {
+        throw new Error(`invalid ${field.name} range '${range}'`);
+      }
+    } else {
+      start = parseValue(range, field);
+      // "5/15" means every 15 starting at 5
+      end = stepText === undefined ? start : field.max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a five-field cron expression or one of the @hourly-style aliases
+ */
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const fields = (ALIASES[trimmed.toLowerCase()] ?? trimmed).split(/\s+/);
+  if (fields.length !== FIELDS.length) {
+    throw new Error(
+      `Invalid cron expression '${expression}': expected 5 fields, got ${fields.length}`,
+    );
+  }
+
+  let sets: Set<number>[];
+  try {
+    sets = fields.map((text, i) => parseField(text, FIELDS[i]!));
+  } catch (error) {
+    throw new Error(
+      `Invalid cron expression '${expression}': ${(error as Error).message}`,
+    );
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = sets as [
+    Set<number>,
+    Set<number>,
+    Set<number>,
+    Set<number>,
+    Set<number>,
+  ];
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    eitherDay: !fields[2]!.startsWith("*") && !fields[4]!.startsWith("*"),
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+  return schedule.eitherDay ? dayOfMonth || dayOfWeek : dayOfMonth && dayOfWeek;
+}
+
+/**
+ * Find the first minute after a time that the schedule matches
+ */
+export function nextCronTime(schedule: CronSchedule, after: Date): Date {
+  const date = new Date(after);
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+  const limit = after.getTime() + MAX_LOOKAHEAD_MS;
+
+  // Skip whole months, days and hours that can't match
+  while (date.getTime() <= limit) {
+    if (!schedule.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!matchesDay(schedule, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!schedule.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+    } else if (!schedule.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+    } else {
+      return date;
+    }
+  }
+
+  throw new Error("Cron expression never matches");
+}
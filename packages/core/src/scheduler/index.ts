@@ -0,0 +1,12 @@
+/**
+ * Scheduler Module
+ * Re-exports scheduler components
+ */
+
+export { nextCronTime, parseCron, type CronSchedule } from "./cron.js";
+export {
+  PluginScheduler,
+  type JobRun,
+  type JobRunner,
+  type JobStatus,
+} from "./plugin-scheduler.js";
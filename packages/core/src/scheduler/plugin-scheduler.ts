@@ -0,0 +1,195 @@
+/**
+ * Plugin Scheduler
+ * Runs the jobs plugins declare in their manifest's `schedules` on
+ * in-process timers, so no external queue or lock is needed
+ */
+
+import type { LoadedPluginManifest, Schedule } from "@workspace/plugin-sdk";
+import { nextCronTime, parseCron, type CronSchedule } from "./cron.js";
+
+/** Outcome of a single job run */
+export interface JobRun {
+  status: "success" | "failed" | "skipped";
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  /** Why the run failed or was skipped */
+  error?: string;
+}
+
+/** A scheduled job and how it last went */
+export interface JobStatus {
+  name: string;
+  cron: string;
+  jitterMs: number;
+  /** Whether a run is in progress */
+  running: boolean;
+  /** When the job fires next (before jitter), or null if it isn't scheduled */
+  nextRunAt: string | null;
+  lastRun: JobRun | null;
+  /** Last run that completed successfully */
+  lastSuccessAt: string | null;
+  runs: number;
+  failures: number;
+}
+
+/** Runs a job, rejecting if it failed */
+export type JobRunner = (pluginId: string, jobName: string) => Promise<void>;
+
+/** setTimeout can't wait longer than this; longer waits are chained */
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+interface JobState {
+  status: JobStatus;
+  cron: CronSchedule;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+function jobKey(pluginId: string, jobName: string): string {
+  return `${pluginId}:${jobName}`;
+}
+
+/**
+ * PluginScheduler
+ * A job is skipped when it fires while its previous run is still going.
+ */
+export class PluginScheduler {
+  private jobs = new Map<string, JobState>();
+
+  constructor(private readonly runJob: JobRunner) {}
+
+  /**
+   * Schedule the jobs of the given plugins and cancel all others.
+   * Status is kept for jobs that stay declared, including runs in progress.
+   */
+  sync(manifests: LoadedPluginManifest[]): void {
+    const previous = this.jobs;
+    this.jobs = new Map();
+
+    for (const state of previous.values()) {
+      if (state.timer) clearTimeout(state.timer);
+    }
+
+    for (const manifest of manifests) {
+      for (const schedule of manifest.schedules) {
+        const key = jobKey(manifest.id, schedule.name);
+        const state = this.createState(schedule, previous.get(key));
+        this.jobs.set(key, state);
+        this.arm(manifest.id, state);
+      }
+    }
+  }
+
+  /**
+   * Cancel every job
+   */
+  stop(): void {
+    this.sync([]);
+  }
+
+  /**
+   * Get the status of a plugin's declared jobs, scheduled or not
+   */
+  getJobs(manifest: LoadedPluginManifest): JobStatus[] {
+    return manifest.schedules.map((schedule) => {
+      const state = this.jobs.get(jobKey(manifest.id, schedule.name));
+      return state ? { ...state.status } : this.emptyStatus(schedule);
+    });
+  }
+
+  private emptyStatus(schedule: Schedule): JobStatus {
+    return {
+      name: schedule.name,
+      cron: schedule.cron,
+      jitterMs: schedule.jitterMs,
+      running: false,
+      nextRunAt: null,
+      lastRun: null,
+      lastSuccessAt: null,
+      runs: 0,
+      failures: 0,
+    };
+  }
+
+  private createState(schedule: Schedule, previous?: JobState): JobState {
+    // Share the status, so a run still in progress reports into it
+    const status = previous?.status ?? this.emptyStatus(schedule);
+    status.cron = schedule.cron;
+    status.jitterMs = schedule.jitterMs;
+
+    return {
+      status,
+      // Manifests are validated by the loader, so this doesn't throw
+      cron: parseCron(schedule.cron),
+      timer: null,
+    };
+  }
+
+  /**
+   * Set a timer for the job's next run
+   */
+  private arm(pluginId: string, state: JobState): void {
+    const next = nextCronTime(state.cron, new Date());
+    const fireAt = next.getTime() + Math.random() * state.status.jitterMs;
+    state.status.nextRunAt = next.toISOString();
+
+    const wait = () => {
+      const delay = fireAt - Date.now();
+      state.timer =
+        delay > MAX_TIMER_MS
+          ? setTimeout(wait, MAX_TIMER_MS)
+          : setTimeout(() => this.fire(pluginId, state), Math.max(0, delay));
+    };
+    wait();
+  }
+
+  private async fire(pluginId: string, state: JobState): Promise<void> {
+    if (state.timer) clearTimeout(state.timer);
+    state.timer = null;
+    const { status } = state;
+
+    // Only a job that is still scheduled runs again
+    const scheduled = this.jobs.get(jobKey(pluginId, status.name)) === state;
+    if (scheduled) this.arm(pluginId, state);
+
+    const startedAt = new Date();
+    if (status.running) {
+      status.lastRun = {
+        status: "skipped",
+        startedAt: startedAt.toISOString(),
+        finishedAt: startedAt.toISOString(),
+        durationMs: 0,
+        error: "Previous run still in progress",
+      };
+      console.warn(
+        `Skipped job ${pluginId}/${status.name}: previous run still in progress`,
+      );
+      return;
+    }
+
+    status.running = true;
+    let error: string | undefined;
+    try {
+      await this.runJob(pluginId, status.name);
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+      console.error(`Job ${pluginId}/${status.name} failed: ${error}`);
+    }
+
+    const finishedAt = new Date();
+    status.running = false;
+    status.runs += 1;
+    status.lastRun = {
+      status: error ? "failed" : "success",
+      startedAt: startedAt.toISOString(),
+      finishedAt: finishedAt.toISOString(),
+      durationMs: finishedAt.getTime() - startedAt.getTime(),
+      error,
+    };
+    if (error) {
+      status.failures += 1;
+    } else {
+      status.lastSuccessAt = finishedAt.toISOString();
+    }
+  }
+}
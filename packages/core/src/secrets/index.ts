@@ -0,0 +1,12 @@
+/**
+ * Secrets Module
+ * Re-exports secret stores
+ */
+
+export {
+  EncryptedFileSecretStore,
+  EnvSecretStore,
+  LayeredSecretStore,
+  secretEnvName,
+  type SecretStore,
+} from "./secret-store.js";
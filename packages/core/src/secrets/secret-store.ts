@@ -0,0 +1,121 @@
+/**
+ * Plugin Secret Stores
+ * Where the Core looks up the secrets plugins declare in their manifest:
+ * environment variables, or a file encrypted like SecureMemoryService values
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import {
+  assertEncryptionKeys,
+  decryptValue,
+  encryptValue,
+  type EncryptionKeys,
+} from "../memory/encryption.js";
+
+export interface SecretStore {
+  /** Get a plugin's secret, or null if it isn't set */
+  get(pluginId: string, name: string): Promise<string | null>;
+}
+
+/** Secret values keyed by plugin ID, then secret name */
+type SecretFileContents = Record<string, Record<string, string>>;
+
+/**
+ * Environment variable holding a plugin's secret, e.g.
+ * FRONTCLAW_SECRET_DUCKDUCKGO_SEARCH__API_KEY for "API_KEY" of "duckduckgo-search"
+ */
+export function secretEnvName(pluginId: string, name: string): string {
+  return `FRONTCLAW_SECRET_${pluginId.toUpperCase().replace(/-/g, "_")}__${name}`;
+}
+
+/**
+ * Reads secrets from environment variables named by secretEnvName
+ */
+export class EnvSecretStore implements SecretStore {
+  constructor(
+    private readonly env: Record<string, string | undefined> = process.env,
+  ) {}
+
+  async get(pluginId: string, name: string): Promise<string | null> {
+    return this.env[secretEnvName(pluginId, name)] || null;
+  }
+}
+
+/**
+ * Keeps secrets in an AES-256-GCM encrypted file, keyed by plugin ID
+ */
+export class EncryptedFileSecretStore implements SecretStore {
+  /** Writes run one at a time so concurrent updates don't drop each other */
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly filePath: string,
+    private readonly keys: EncryptionKeys,
+  ) {
+    assertEncryptionKeys(keys);
+  }
+
+  private read(): SecretFileContents {
+    if (!fs.existsSync(this.filePath)) return {};
+    try {
+      return decryptValue<SecretFileContents>(
+        fs.readFileSync(this.filePath, "utf-8"),
+        this.keys,
+      );
+    } catch (error) {
+      throw new Error(
+        `Cannot read secrets file '${this.filePath}': ${(error as Error).message}`,
+      );
+    }
+  }
+
+  async get(pluginId: string, name: string): Promise<string | null> {
+    await this.writeQueue;
+    return this.read()[pluginId]?.[name] ?? null;
+  }
+
+  /**
+   * Set a plugin's secret, or remove it when the value is null
+   */
+  async set(
+    pluginId: string,
+    name: string,
+    value: string | null,
+  ): Promise<void> {
+    const write = this.writeQueue.then(() => {
+      const all = this.read();
+      const secrets = { ...all[pluginId] };
+      if (value === null) {
+        delete secrets[name];
+      } else {
+        secrets[name] = value;
+      }
+      all[pluginId] = secrets;
+
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.tmp`;
+      fs.writeFileSync(tempPath, encryptValue(all, this.keys), {
+        mode: 0o600,
+      });
+      fs.renameSync(tempPath, this.filePath);
+    });
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+}
+
+/**
+ * Looks secrets up in several stores, taking the first that has one
+ */
+export class LayeredSecretStore implements SecretStore {
+  constructor(private readonly stores: SecretStore[]) {}
+
+  async get(pluginId: string, name: string): Promise<string | null> {
+    for (const store of this.stores) {
+      const value = await store.get(pluginId, name);
+      if (value !== null) return value;
+    }
+    return null;
+  }
+}
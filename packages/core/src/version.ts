@@ -0,0 +1,8 @@
+/**
+ * Frontclaw core version
+ * Plugins declare compatible ranges against this value, which is the
+ * version in the core package.json.
+ */
+import packageJson from "../package.json" with { type: "json" };
+
+export const FRONTCLAW_VERSION: string = packageJson.version;
@@ -0,0 +1,6 @@
+CREATE TABLE "fc_plugin_migrations" (
+	"plugin_id" text NOT NULL,
+	"version" integer NOT NULL,
+	"applied_at" timestamp DEFAULT now(),
+	CONSTRAINT "fc_plugin_migrations_plugin_id_version_pk" PRIMARY KEY("plugin_id","version")
+);
@@ -1,3 +1,7 @@
 export * from "./primary";
 export * as primarySchema from "./primary/schema";
 export * as primaryActions from "./primary/actions";
+export {
+  createPluginDBAdapter,
+  type PluginDBAdapterOptions,
+} from "./primary/plugin-adapter";
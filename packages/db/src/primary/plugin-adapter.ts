@@ -0,0 +1,574 @@
+/**
+ * Database access for Frontclaw plugins.
+ * Every call runs in its own transaction under a statement timeout. Reads, and
+ * queries from plugins without write access, run in a READ ONLY transaction,
+ * so Postgres itself rejects writes the Core's SQL checks miss. Writes are
+ * recorded in the audit log in the same transaction. Migrations of the
+ * tables plugins own are recorded in fc_plugin_migrations.
+ */
+
+import { ItemSchema } from "@workspace/schema/item";
+import { getTableColumns, getTableName, is } from "drizzle-orm";
+import { PgTable, PgVector } from "drizzle-orm/pg-core";
+import type { TransactionSql } from "postgres";
+import { primaryDB } from ".";
+import * as schema from "./schema";
+
+export interface PluginDBAdapterOptions {
+  /** Longest a plugin statement may run before Postgres cancels it (ms) */
+  statementTimeoutMs?: number;
+  /** Longest a plugin migration may run before Postgres cancels it (ms) */
+  migrationTimeoutMs?: number;
+  /** Rows getItems returns when the plugin doesn't set a limit */
+  defaultLimit?: number;
+  /** Most rows getItems returns */
+  maxLimit?: number;
+}
+
+/** Part of a table a plugin may read */
+interface ReadScope {
+  columns?: string[];
+  filter?: string;
+}
+
+/** Who a plugin's write is for and which rows it may touch */
+interface WriteOptions {
+  pluginId: string;
+  scope?: ReadScope;
+}
+
+type Row = Record<string, unknown>;
+
+const DEFAULT_STATEMENT_TIMEOUT_MS = 5000;
+const DEFAULT_MIGRATION_TIMEOUT_MS = 60000;
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 1000;
+
+/** The primary tables by name, so plugins can use "items" for "fc_items" */
+const primaryTables = new Map<string, PgTable>(
+  Object.values(schema)
+    .filter((value) => is(value, PgTable))
+    .map((table) => [getTableName(table as PgTable), table as PgTable]),
+);
+
+const ITEMS_TABLE = getTableName(schema.items);
+const AUDIT_TABLE = getTableName(schema.auditLogs);
+const MIGRATIONS_TABLE = getTableName(schema.pluginMigrations);
+
+/** ItemSchema keys by column name, e.g. "content_body" → "contentBody" */
+const itemKeys = new Map(
+  Object.entries(getTableColumns(schema.items)).map(([key, column]) => [
+    column.name,
+    key,
+  ]),
+);
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Whether the written row still meets the plugin's row filter */
+const IN_SCOPE = "__in_scope";
+
+function quoteIdentifier(name: string): string {
+  if (!/^[a-zA-Z_][\w$]*$/.test(name)) {
+    throw new Error(`Invalid identifier '${name}'`);
+  }
+  return `"${name}"`;
+}
+
+/** Database name of a table, which plugins may name without its prefix */
+function resolveTable(table: string): string {
+  const prefixed = `${schema.TABLE_PREFIX}${table}`;
+  return primaryTables.has(prefixed) ? prefixed : table;
+}
+
+/**
+ * Build a WHERE clause matching every column to its value: null matches
+ * NULL and an array matches any of its values
+ */
+function buildWhere(
+  where: Record<string, unknown> | undefined,
+  params: unknown[],
+  conditions: string[] = [],
+): string {
+  const clauses = [...conditions];
+  for (const [column, value] of Object.entries(where ?? {})) {
+    if (value === undefined) continue;
+
+    const quoted = quoteIdentifier(column);
+    if (value === null) {
+      clauses.push(`${quoted} IS NULL`);
+      continue;
+    }
+    if (typeof value === "object" && !Array.isArray(value)) {
+      throw new Error(`Unsupported filter value for column '${column}'`);
+    }
+
+    params.push(value);
+    clauses.push(
+      Array.isArray(value)
+        ? `${quoted} = ANY($${params.length})`
+        : `${quoted} = $${params.length}`,
+    );
+  }
+  return clauses.length > 0 ? ` WHERE ${clauses.join(" AND ")}` : "";
+}
+
+/**
+ * Columns to select and extra WHERE conditions for a plugin's read scope.
+ * The filter comes from the plugin's approved permissions, not the plugin.
+ */
+function scopeSql(scope: ReadScope | undefined): {
+  columns: string;
+  conditions: string[];
+} {
+  return {
+    columns: scope?.columns?.map(quoteIdentifier).join(", ") || "*",
+    conditions: scope?.filter ? [`(${scope.filter})`] : [],
+  };
+}
+
+/**
+ * Check values for the items table against ItemSchema, keeping column
+ * names. Updates only check (and set) the columns they write.
+ */
+function validateItem(values: Row, partial: boolean): Row {
+  const item: Row = {};
+  const validated: Row = {};
+  for (const [column, value] of Object.entries(values)) {
+    const key = itemKeys.get(column);
+    if (!key) {
+      throw new Error(`Unknown column '${column}' in table '${ITEMS_TABLE}'`);
+    }
+    // Columns the Core manages, like id and timestamps, aren't in the schema
+    if (key in ItemSchema.shape) {
+      item[key] = value;
+    } else {
+      validated[column] = value;
+    }
+  }
+
+  const result = (partial ? ItemSchema.partial() : ItemSchema).safeParse(item);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+      .join(", ");
+    throw new Error(`Invalid item: ${issues}`);
+  }
+
+  for (const [column, key] of itemKeys) {
+    const value = (result.data as Row)[key];
+    if (value !== undefined && (!partial || key in item)) {
+      validated[column] = value;
+    }
+  }
+  return validated;
+}
+
+/**
+ * Validate a row written to a table and convert values postgres.js can't:
+ * pgvector takes "[1,2,3]" rather than an array
+ */
+function prepareRow(table: string, values: Row, partial: boolean): Row {
+  const row = table === ITEMS_TABLE ? validateItem(values, partial) : values;
+  const primary = primaryTables.get(table);
+  if (!primary) return row;
+
+  const vectors = Object.values(getTableColumns(primary))
+    .filter((column) => is(column, PgVector))
+    .map((column) => column.name);
+  return Object.fromEntries(
+    Object.entries(row).map(([column, value]) => [
+      column,
+      vectors.includes(column) && Array.isArray(value)
+        ? JSON.stringify(value)
+        : value,
+    ]),
+  );
+}
+
+/**
+ * The part of a written row the plugin may see
+ */
+function scopeRow(row: Row, scope: ReadScope | undefined): Row {
+  const { [IN_SCOPE]: _inScope, ...full } = row;
+  if (!scope?.columns) return full;
+  return Object.fromEntries(
+    scope.columns.filter((column) => column in full).map((c) => [c, full[c]]),
+  );
+}
+
+/**
+ * RETURNING clause for the written row, and whether it meets the plugin's
+ * row filter
+ */
+function returning(scope: ReadScope | undefined): string {
+  const inScope = scope?.filter ? `(${scope.filter})` : "true";
+  return ` RETURNING *, ${inScope} AS "${IN_SCOPE}"`;
+}
+
+function assertInScope(row: Row | undefined, table: string): Row {
+  if (row?.[IN_SCOPE] !== true) {
+    throw new Error(
+      `Write would leave a row of table '${table}' outside the plugin's permitted rows`,
+    );
+  }
+  return row;
+}
+
+/** Quoted column names and their placeholders, adding values to params */
+function buildValues(
+  row: Row,
+  params: unknown[],
+): { columns: string[]; placeholders: string[] } {
+  const columns: string[] = [];
+  const placeholders: string[] = [];
+  for (const [column, value] of Object.entries(row)) {
+    if (value === undefined) continue;
+    params.push(value);
+    columns.push(quoteIdentifier(column));
+    placeholders.push(`$${params.length}`);
+  }
+  if (columns.length === 0) {
+    throw new Error("Row values must set at least one column");
+  }
+  return { columns, placeholders };
+}
+
+function parseCount(
+  name: string,
+  value: number | undefined,
+  fallback: number,
+  max: number,
+): number {
+  if (value === undefined) return fallback;
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`${name} must be a non-negative integer`);
+  }
+  return Math.min(value, max);
+}
+
+export const createPluginDBAdapter = (options: PluginDBAdapterOptions = {}) => {
+  const client = primaryDB.$client;
+  const statementTimeoutMs =
+    options.statementTimeoutMs ?? DEFAULT_STATEMENT_TIMEOUT_MS;
+  const migrationTimeoutMs =
+    options.migrationTimeoutMs ?? DEFAULT_MIGRATION_TIMEOUT_MS;
+  const defaultLimit = options.defaultLimit ?? DEFAULT_LIMIT;
+  const maxLimit = options.maxLimit ?? MAX_LIMIT;
+
+  const transaction = <T>(
+    readOnly: boolean,
+    run: (tx: TransactionSql) => Promise<T>,
+    timeoutMs = statementTimeoutMs,
+  ) =>
+    client.begin(readOnly ? "read only" : "read write", async (tx) => {
+      // SET LOCAL only lasts until the transaction ends
+      await tx.unsafe(`SET LOCAL statement_timeout = ${Math.floor(timeoutMs)}`);
+      return run(tx);
+    }) as Promise<T>;
+
+  /** Record a plugin's write in the audit log, in the write's transaction */
+  const audit = async (
+    tx: TransactionSql,
+    table: string,
+    action: "create" | "update" | "delete",
+    pluginId: string,
+    previous: Row | null,
+    next: Row | null,
+  ) => {
+    const previousState = previous && scopeRow(previous, undefined);
+    const newState = next && scopeRow(next, undefined);
+    const id = (newState ?? previousState)?.id;
+    await tx.unsafe(
+      `INSERT INTO ${quoteIdentifier(AUDIT_TABLE)} ` +
+        `("entity_type", "entity_id", "action", "actor_id", "previous_state", "new_state") ` +
+        `VALUES ($1, $2, $3, $4, $5, $6)`,
+      [
+        table,
+        typeof id === "string" && UUID_PATTERN.test(id) ? id : null,
+        action,
+        `plugin:${pluginId}`,
+        previousState,
+        newState,
+      ] as never[],
+    );
+  };
+
+  /** Lock a row in the plugin's scope, so it can be changed */
+  const lockRow = async (
+    tx: TransactionSql,
+    table: string,
+    id: string,
+    scope: ReadScope | undefined,
+  ): Promise<Row | undefined> => {
+    const params: unknown[] = [id];
+    const { conditions } = scopeSql(scope);
+    const whereClause = buildWhere(undefined, params, [
+      `"id" = $1`,
+      ...conditions,
+    ]);
+    const [row] = await tx.unsafe(
+      `SELECT * FROM ${quoteIdentifier(table)}${whereClause} FOR UPDATE`,
+      params as never[],
+    );
+    return row;
+  };
+
+  return {
+    resolveTable,
+
+    async query(
+      sql: string,
+      params?: unknown[],
+      queryOptions?: { readOnly?: boolean },
+    ): Promise<{ rows: unknown[]; rowCount: number }> {
+      return transaction(queryOptions?.readOnly ?? true, async (tx) => {
+        const result = await tx.unsafe(sql, (params ?? []) as never[]);
+        return { rows: [...result], rowCount: result.count };
+      });
+    },
+
+    async getItems(
+      table: string,
+      getOptions?: ReadScope & {
+        where?: Record<string, unknown>;
+        limit?: number;
+        offset?: number;
+      },
+    ): Promise<unknown[]> {
+      const params: unknown[] = [];
+      const { columns, conditions } = scopeSql(getOptions);
+      const whereClause = buildWhere(getOptions?.where, params, conditions);
+      const limit = parseCount(
+        "limit",
+        getOptions?.limit,
+        defaultLimit,
+        maxLimit,
+      );
+      const offset = parseCount(
+        "offset",
+        getOptions?.offset,
+        0,
+        Number.MAX_SAFE_INTEGER,
+      );
+
+      params.push(limit, offset);
+      const sql =
+        `SELECT ${columns} FROM ${quoteIdentifier(resolveTable(table))}` +
+        `${whereClause} LIMIT $${params.length - 1} OFFSET $${params.length}`;
+
+      return transaction(true, async (tx) => [
+        ...(await tx.unsafe(sql, params as never[])),
+      ]);
+    },
+
+    async getItem(
+      table: string,
+      id: string,
+      scope?: ReadScope,
+    ): Promise<unknown | null> {
+      const params: unknown[] = [id];
+      const { columns, conditions } = scopeSql(scope);
+      const whereClause = buildWhere(undefined, params, [
+        `"id" = $1`,
+        ...conditions,
+      ]);
+      const sql = `SELECT ${columns} FROM ${quoteIdentifier(resolveTable(table))}${whereClause} LIMIT 1`;
+      return transaction(true, async (tx) => {
+        const [row] = await tx.unsafe(sql, params as never[]);
+        return row ?? null;
+      });
+    },
+
+    async insertItem(
+      table: string,
+      values: Row,
+      writeOptions: WriteOptions,
+    ): Promise<unknown> {
+      const name = resolveTable(table);
+      const params: unknown[] = [];
+      const { columns, placeholders } = buildValues(
+        prepareRow(name, values, false),
+        params,
+      );
+      const sql =
+        `INSERT INTO ${quoteIdentifier(name)} (${columns.join(", ")}) ` +
+        `VALUES (${placeholders.join(", ")})${returning(writeOptions.scope)}`;
+
+      return transaction(false, async (tx) => {
+        const [written] = await tx.unsafe(sql, params as never[]);
+        const row = assertInScope(written, name);
+        await audit(tx, name, "create", writeOptions.pluginId, null, row);
+        return scopeRow(row, writeOptions.scope);
+      });
+    },
+
+    async updateItem(
+      table: string,
+      id: string,
+      values: Row,
+      writeOptions: WriteOptions,
+    ): Promise<unknown | null> {
+      const name = resolveTable(table);
+      const params: unknown[] = [id];
+      const { columns, placeholders } = buildValues(
+        prepareRow(name, values, true),
+        params,
+      );
+      const assignments = columns.map(
+        (column, i) => `${column} = ${placeholders[i]}`,
+      );
+      const sql =
+        `UPDATE ${quoteIdentifier(name)} SET ${assignments.join(", ")} ` +
+        `WHERE "id" = $1${returning(writeOptions.scope)}`;
+
+      return transaction(false, async (tx) => {
+        const previous = await lockRow(tx, name, id, writeOptions.scope);
+        if (!previous) return null;
+
+        const [written] = await tx.unsafe(sql, params as never[]);
+        const row = assertInScope(written, name);
+        await audit(tx, name, "update", writeOptions.pluginId, previous, row);
+        return scopeRow(row, writeOptions.scope);
+      });
+    },
+
+    async deleteItem(
+      table: string,
+      id: string,
+      writeOptions: WriteOptions,
+    ): Promise<boolean> {
+      const name = resolveTable(table);
+      return transaction(false, async (tx) => {
+        const previous = await lockRow(tx, name, id, writeOptions.scope);
+        if (!previous) return false;
+
+        await tx.unsafe(
+          `DELETE FROM ${quoteIdentifier(name)} WHERE "id" = $1`,
+          [id],
+        );
+        await audit(tx, name, "delete", writeOptions.pluginId, previous, null);
+        return true;
+      });
+    },
+
+    async upsert(
+      table: string,
+      values: Row,
+      writeOptions: WriteOptions & { onConflict?: string[] },
+    ): Promise<unknown> {
+      const name = resolveTable(table);
+      const row = prepareRow(name, values, false);
+      const conflict = writeOptions.onConflict ?? ["id"];
+      if (conflict.length === 0) {
+        throw new Error("onConflict must name at least one column");
+      }
+      for (const column of conflict) {
+        if (row[column] === undefined || row[column] === null) {
+          throw new Error(`Upsert values must set conflict column '${column}'`);
+        }
+      }
+
+      const params: unknown[] = [];
+      const { columns, placeholders } = buildValues(row, params);
+      const conflictColumns = conflict.map(quoteIdentifier);
+      // Setting a conflict column to itself still returns the existing row
+      const updated = columns.filter((c) => !conflictColumns.includes(c));
+      const assignments = (updated.length > 0 ? updated : conflictColumns).map(
+        (column) => `${column} = EXCLUDED.${column}`,
+      );
+      const sql =
+        `INSERT INTO ${quoteIdentifier(name)} (${columns.join(", ")}) ` +
+        `VALUES (${placeholders.join(", ")}) ` +
+        `ON CONFLICT (${conflictColumns.join(", ")}) ` +
+        `DO UPDATE SET ${assignments.join(", ")}${returning(writeOptions.scope)}`;
+
+      const lockParams: unknown[] = [];
+      const whereClause = buildWhere(
+        Object.fromEntries(conflict.map((column) => [column, row[column]])),
+        lockParams,
+      );
+      const inScope = writeOptions.scope?.filter
+        ? `(${writeOptions.scope.filter})`
+        : "true";
+      const lockSql =
+        `SELECT *, ${inScope} AS "${IN_SCOPE}" FROM ${quoteIdentifier(name)}` +
+        `${whereClause} FOR UPDATE`;
+
+      return transaction(false, async (tx) => {
+        const [previous] = await tx.unsafe(lockSql, lockParams as never[]);
+        if (previous) assertInScope(previous, name);
+
+        const [written] = await tx.unsafe(sql, params as never[]);
+        const result = assertInScope(written, name);
+        await audit(
+          tx,
+          name,
+          previous ? "update" : "create",
+          writeOptions.pluginId,
+          previous ?? null,
+          result,
+        );
+        return scopeRow(result, writeOptions.scope);
+      });
+    },
+
+    async migratePluginTables(
+      pluginId: string,
+      migrations: { version: number; sql: string }[],
+    ): Promise<number[]> {
+      const ordered = [...migrations].sort((a, b) => a.version - b.version);
+      const applied: number[] = [];
+
+      for (const migration of ordered) {
+        const ran = await transaction(
+          false,
+          async (tx) => {
+            // Servers starting the same plugin take turns, and skip what
+            // another already ran
+            await tx.unsafe("SELECT pg_advisory_xact_lock(hashtext($1))", [
+              `${MIGRATIONS_TABLE}:${pluginId}`,
+            ]);
+            const [done] = await tx.unsafe(
+              `SELECT 1 FROM ${quoteIdentifier(MIGRATIONS_TABLE)} ` +
+                `WHERE "plugin_id" = $1 AND "version" = $2`,
+              [pluginId, migration.version],
+            );
+            if (done) return false;
+
+            // Without parameters, several statements can run at once
+            await tx.unsafe(migration.sql);
+            await tx.unsafe(
+              `INSERT INTO ${quoteIdentifier(MIGRATIONS_TABLE)} ` +
+                `("plugin_id", "version") VALUES ($1, $2)`,
+              [pluginId, migration.version],
+            );
+            return true;
+          },
+          migrationTimeoutMs,
+        );
+        if (ran) applied.push(migration.version);
+      }
+      return applied;
+    },
+
+    async dropPluginTables(pluginId: string, tables: string[]): Promise<void> {
+      await transaction(
+        false,
+        async (tx) => {
+          if (tables.length > 0) {
+            await tx.unsafe(
+              `DROP TABLE IF EXISTS ${tables.map(quoteIdentifier).join(", ")} CASCADE`,
+            );
+          }
+          await tx.unsafe(
+            `DELETE FROM ${quoteIdentifier(MIGRATIONS_TABLE)} WHERE "plugin_id" = $1`,
+            [pluginId],
+          );
+        },
+        migrationTimeoutMs,
+      );
+    },
+  };
+};
@@ -1,7 +1,9 @@
 import {
   index,
+  integer,
   jsonb,
   pgTable,
+  primaryKey,
   real,
   text,
   timestamp,
@@ -9,7 +11,7 @@ import {
   vector,
 } from "drizzle-orm/pg-core";
 
-const TABLE_PREFIX = process.env.DB_TABLE_PREFIX ?? "fc_";
+export const TABLE_PREFIX = process.env.DB_TABLE_PREFIX ?? "fc_";
 
 // Contents & Vectors
 export const items = pgTable(
@@ -116,3 +118,14 @@ export const auditLogs = pgTable(`${TABLE_PREFIX}audit_logs`, {
   ipAddress: text("ip_address"),
   createdAt: timestamp("created_at").defaultNow(),
 });
+
+// Plugin Tables
+export const pluginMigrations = pgTable(
+  `${TABLE_PREFIX}plugin_migrations`,
+  {
+    pluginId: text("plugin_id").notNull(),
+    version: integer("version").notNull(), // From the plugin's manifest
+    appliedAt: timestamp("applied_at").defaultNow(),
+  },
+  (table) => [primaryKey({ columns: [table.pluginId, table.version] })],
+);
@@ -0,0 +1,282 @@
+/**
+ * Sandbox Lockdown
+ * Removes what it can of the runtime's ambient capabilities before plugin
+ * code runs. The import scan below only catches mistakes; what keeps plugin
+ * code from the built-ins is the runtime lockdown, which also turns off code
+ * generation from strings so no import() escapes the scan. Bun.fetch,
+ * Bun.dns and Bun.plugin are read-only and can't be removed, so code in a
+ * worker can always reach them: only the stdio transport, whose process has
+ * no network, contains an untrusted plugin.
+ */
+
+import fs from "node:fs";
+import Module, { builtinModules } from "node:module";
+import path from "node:path";
+
+/** Node built-ins without I/O that plugins may import */
+const ALLOWED_BUILTINS = new Set([
+  "assert",
+  "buffer",
+  "crypto",
+  "events",
+  "path",
+  "punycode",
+  "querystring",
+  "stream",
+  "string_decoder",
+  "timers",
+  "url",
+  "util",
+  "zlib",
+]);
+
+/** Bun APIs without file, process, or network access */
+const ALLOWED_BUN_APIS = new Set([
+  "ArrayBufferSink",
+  "CSRF",
+  "Cookie",
+  "CookieMap",
+  "CryptoHasher",
+  "MD4",
+  "MD5",
+  "SHA1",
+  "SHA224",
+  "SHA256",
+  "SHA384",
+  "SHA512",
+  "SHA512_256",
+  "TOML",
+  "YAML",
+  "allocUnsafe",
+  "color",
+  "concatArrayBuffers",
+  "deepEquals",
+  "deepMatch",
+  "deflateSync",
+  "escapeHTML",
+  "fileURLToPath",
+  "gunzipSync",
+  "gzipSync",
+  "hash",
+  "indexOfLine",
+  "inflateSync",
+  "inspect",
+  "isMainThread",
+  "nanoseconds",
+  "password",
+  "pathToFileURL",
+  "peek",
+  "randomUUIDv5",
+  "randomUUIDv7",
+  "readableStreamToArray",
+  "readableStreamToArrayBuffer",
+  "readableStreamToBlob",
+  "readableStreamToBytes",
+  "readableStreamToFormData",
+  "readableStreamToJSON",
+  "readableStreamToText",
+  "revision",
+  "semver",
+  "sha",
+  "sleep",
+  "sleepSync",
+  "stringWidth",
+  "stripANSI",
+  "version",
+  "zstdCompress",
+  "zstdCompressSync",
+  "zstdDecompress",
+  "zstdDecompressSync",
+]);
+
+/** Globals that open connections or spawn unsandboxed threads */
+const BLOCKED_GLOBALS = ["WebSocket", "EventSource", "Worker"];
+
+/** Process APIs that reach native code, the filesystem, or other processes */
+const BLOCKED_PROCESS_APIS = [
+  "binding",
+  "_linkedBinding",
+  "dlopen",
+  "getBuiltinModule",
+  "kill",
+  "chdir",
+];
+
+const BUILTIN_MODULES = new Set(builtinModules);
+
+/**
+ * Matches import() calls whose specifier isn't a string literal. Code built
+ * from strings isn't scanned, which is why lockDownGlobals disables it.
+ */
+const COMPUTED_IMPORT = /\bimport\s*\(\s*(?!(["'`])[^"'`]*\1\s*[,)])/;
+
+/**
+ * Matches direct uses of the Bun APIs lockDownGlobals can't remove. Aliasing
+ * Bun (`const b = Bun`) gets past it, so it catches mistakes, not attacks.
+ */
+const UNREMOVABLE_BUN_API = /\bBun\s*(\.\s*(fetch|dns|plugin)\b|\[)/;
+
+const SOURCE_FILE = /\.[cm]?[jt]sx?$/;
+
+/**
+ * Whether a module specifier is a runtime built-in the plugin may not load
+ */
+function isBlockedBuiltin(specifier: string): boolean {
+  if (specifier === "bun" || specifier.startsWith("bun:")) return true;
+
+  const name = specifier.replace(/^node:/, "");
+  const root = name.split("/")[0]!;
+  if (!specifier.startsWith("node:") && !BUILTIN_MODULES.has(root)) {
+    return false;
+  }
+  return !ALLOWED_BUILTINS.has(root);
+}
+
+function transpilerFor(file: string): Bun.Transpiler {
+  const loader = /\.[cm]?tsx$|\.jsx$/.test(file)
+    ? "tsx"
+    : /\.[cm]?ts$/.test(file)
+      ? "ts"
+      : "js";
+  return new Bun.Transpiler({ loader });
+}
+
+/**
+ * Walk the plugin's import graph, including its dependencies, and report
+ * every module that loads a blocked built-in. ESM imports of built-ins
+ * can't be intercepted at runtime, so this has to happen before import().
+ * It reads source text, so it is a check for honest mistakes, not a
+ * boundary: it relies on lockDownGlobals to stop code it can't see.
+ */
+export function checkModuleGraph(entryPath: string): string[] {
+  const violations: string[] = [];
+  const visited = new Set<string>();
+  const queue = [entryPath];
+
+  while (queue.length > 0) {
+    const file = queue.pop()!;
+    if (visited.has(file)) continue;
+    visited.add(file);
+    if (!SOURCE_FILE.test(file)) continue;
+
+    const source = fs.readFileSync(file, "utf-8");
+    const transpiler = transpilerFor(file);
+
+    let imports: ReturnType<Bun.Transpiler["scanImports"]>;
+    try {
+      imports = transpiler.scanImports(source);
+    } catch (error) {
+      violations.push(
+        `${file}: could not be parsed (${(error as Error).message})`,
+      );
+      continue;
+    }
+
+    const code = transpiler.transformSync(source);
+    if (COMPUTED_IMPORT.test(code)) {
+      violations.push(`${file}: import() with a computed specifier`);
+    }
+    const bunApi = code.match(UNREMOVABLE_BUN_API);
+    if (bunApi) {
+      violations.push(`${file}: uses '${bunApi[0].replace(/\s/g, "")}'`);
+    }
+
+    for (const { path: specifier } of imports) {
+      if (isBlockedBuiltin(specifier)) {
+        violations.push(`${file}: imports '${specifier}'`);
+        continue;
+      }
+      try {
+        queue.push(Bun.resolveSync(specifier, path.dirname(file)));
+      } catch {
+        // Unresolvable imports fail on their own when the plugin loads
+      }
+    }
+  }
+
+  return violations;
+}
+
+/** Constructors that compile strings into functions */
+const CODE_CONSTRUCTORS = [
+  Function,
+  Object.getPrototypeOf(async function () {}).constructor,
+  Object.getPrototypeOf(function* () {}).constructor,
+  Object.getPrototypeOf(async function* () {}).constructor,
+] as FunctionConstructor[];
+
+/**
+ * Make a stand-in for a code-compiling constructor (or eval) that throws.
+ * It shares the original's prototype so instanceof checks keep working.
+ */
+function blockCodeGeneration(prototype?: object): FunctionConstructor {
+  const blocked = function () {
+    throw new Error("Code generation from strings is not available to plugins");
+  };
+  if (prototype) blocked.prototype = prototype;
+  return blocked as unknown as FunctionConstructor;
+}
+
+/** Define a property that plugin code can't change back */
+function freezeProperty(target: object, name: string, value: unknown): void {
+  Object.defineProperty(target, name, {
+    value,
+    writable: false,
+    configurable: false,
+  });
+}
+
+/**
+ * Replace or remove the worker's ambient capabilities.
+ * `fetch` is swapped for the sandboxed version so libraries keep working
+ * under the plugin's network permissions.
+ */
+export function lockDownGlobals(sandboxedFetch: typeof fetch): void {
+  const globals = globalThis as Record<string, unknown>;
+
+  // Code built from strings, e.g. new Function("return import(s)"), could
+  // import any built-in without passing checkModuleGraph. Every function's
+  // constructor is reachable from the function itself, so each prototype's
+  // constructor is replaced along with the globals.
+  for (const constructor of CODE_CONSTRUCTORS) {
+    freezeProperty(
+      constructor.prototype,
+      "constructor",
+      blockCodeGeneration(constructor.prototype),
+    );
+  }
+  freezeProperty(globals, "Function", blockCodeGeneration(Function.prototype));
+  freezeProperty(globals, "eval", blockCodeGeneration());
+
+  globals.fetch = sandboxedFetch;
+  for (const name of BLOCKED_GLOBALS) {
+    delete globals[name];
+  }
+
+  // Bun's own properties can't be deleted, only overwritten. Read-only ones
+  // stay reachable (see above); Bun.env is covered by the Core starting the
+  // worker with an empty environment.
+  const bun = Bun as unknown as Record<string, unknown>;
+  for (const name of Object.keys(bun)) {
+    if (ALLOWED_BUN_APIS.has(name)) continue;
+    if (!Object.getOwnPropertyDescriptor(bun, name)?.writable) continue;
+    bun[name] = undefined;
+  }
+
+  const proc = process as unknown as Record<string, unknown>;
+  for (const name of BLOCKED_PROCESS_APIS) {
+    proc[name] = undefined;
+  }
+
+  // require() of a computed specifier is the one path left to a built-in
+  const moduleInternals = Module as unknown as {
+    _resolveFilename: (request: string, ...rest: unknown[]) => string;
+  };
+  const resolveFilename = moduleInternals._resolveFilename;
+  moduleInternals._resolveFilename = function (request, ...rest) {
+    if (isBlockedBuiltin(request)) {
+      throw new Error(`Module '${request}' is not available to plugins`);
+    }
+    return resolveFilename.call(this, request, ...rest);
+  };
+}
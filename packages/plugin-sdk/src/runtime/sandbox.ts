@@ -4,22 +4,60 @@
  */
 
 import path from "node:path";
+import { heapSize } from "bun:jsc";
 import type {
+  ConfigChange,
   FrontclawPlugin,
+  LLMEmbedOptions,
+  LLMEmbedResult,
+  LLMGenerateOptions,
+  LLMGenerateResult,
+  LLMStructuredOptions,
+  LLMStructuredResult,
   Permissions,
   PluginContext,
   PluginError,
   PluginInterceptResult,
+  RPCCapabilities,
   RPCHookRequest,
   RPCMessage,
+  RPCSandboxReady,
   SandboxedDB,
+  SandboxedFetch,
   SandboxedLogger,
 } from "../types/index.js";
 import {
   createErrorResponse,
   createSuccessResponse,
   createSysCallRequest,
+  MIN_RPC_PROTOCOL_VERSION,
+  RPC_PROTOCOL_VERSION,
+  SDK_VERSION,
 } from "../types/rpc.js";
+import { checkModuleGraph, lockDownGlobals } from "./lockdown.js";
+
+/** Syscalls this sandbox issues, with the version of each it speaks */
+const SYSCALL_VERSIONS: Record<string, number> = {
+  "db.query": 1,
+  "db.getItems": 1,
+  "db.getItem": 1,
+  "db.insertItem": 1,
+  "db.updateItem": 1,
+  "db.deleteItem": 1,
+  "db.upsert": 1,
+  "network.fetch": 1,
+  log: 1,
+  "memory.get": 1,
+  "memory.set": 1,
+  "memory.delete": 1,
+  "memory.list": 1,
+  "skills.invoke": 1,
+  "events.publish": 1,
+  "secrets.get": 1,
+  "llm.generate": 1,
+  "llm.generateStructured": 1,
+  "llm.embed": 1,
+};
 
 /** Pending system call promises */
 const pendingSysCalls = new Map<
@@ -41,14 +79,31 @@ let pluginPermissions: Permissions = {
 /** Plugin ID */
 let pluginId = "";
 
+/** Database names of the plugin's own tables */
+let pluginTableNames: Record<string, string> = {};
+
+/**
+ * Periodically report this worker's heap size for its memory limit. The
+ * Core can't measure a worker's heap itself, and plugin code can forge or
+ * stop these reports, so the limit is advisory for workers.
+ */
+function startUsageReports(intervalMs: number): void {
+  const report = () => {
+    postMessage({ type: "RESOURCE_USAGE", heapBytes: heapSize() });
+  };
+  report();
+  setInterval(report, intervalMs);
+}
+
 /**
  * Dispatch a system call to the Core and wait for response
  */
 function dispatchSysCall<T = unknown>(
   method: string,
   payload: unknown,
+  hookId?: string,
 ): Promise<T> {
-  const request = createSysCallRequest(method, payload);
+  const request = createSysCallRequest(method, payload, hookId);
 
   return new Promise((resolve, reject) => {
     pendingSysCalls.set(request.id, {
@@ -71,39 +126,72 @@ function dispatchSysCall<T = unknown>(
 
 /**
  * Create the sandboxed database interface
+ * Calls carry the hook call they are made for, whose profile row filters
+ * can depend on.
  */
-function createSandboxedDB(): SandboxedDB {
+function createSandboxedDB(hookId?: string): SandboxedDB {
+  const call = <T>(method: string, payload: unknown) =>
+    dispatchSysCall<T>(method, payload, hookId);
+
   return {
+    table(name) {
+      const table = pluginTableNames[name];
+      if (!table) {
+        throw new Error(`Table '${name}' is not declared in frontclaw.json`);
+      }
+      return table;
+    },
     async query(sql, params) {
-      return dispatchSysCall("db.query", { sql, params });
+      return call("db.query", { sql, params });
     },
     async getItems(table, options) {
-      return dispatchSysCall("db.getItems", { table, ...options });
+      return call("db.getItems", { table, ...options });
     },
     async getItem(table, id) {
-      return dispatchSysCall("db.getItem", { table, id });
+      return call("db.getItem", { table, id });
+    },
+    async insertItem(table, values) {
+      return call("db.insertItem", { table, values });
+    },
+    async updateItem(table, id, values) {
+      return call("db.updateItem", { table, id, values });
+    },
+    async deleteItem(table, id) {
+      return call("db.deleteItem", { table, id });
+    },
+    async upsert(table, values, options) {
+      return call("db.upsert", { table, values, ...options });
     },
   };
 }
 
 /**
  * Create the sandboxed fetch interface
+ * Also installed as the worker's global fetch, so it accepts anything
+ * libraries pass to fetch and serializes it for the syscall.
  */
-function createSandboxedFetch(): (
-  url: string,
-  init?: RequestInit,
-) => Promise<Response> {
-  return async (url: string, init?: RequestInit) => {
+function createSandboxedFetch(): SandboxedFetch {
+  return async (input, init) => {
+    const request = new Request(input, init);
+    const headers: Record<string, string> = {};
+    request.headers.forEach((value, key) => {
+      headers[key] = value;
+    });
+    const body =
+      request.method === "GET" || request.method === "HEAD"
+        ? undefined
+        : await request.text();
+
     const result = await dispatchSysCall<{
       status: number;
       statusText: string;
       headers: Record<string, string>;
       body: string;
     }>("network.fetch", {
-      url,
-      method: init?.method || "GET",
-      headers: init?.headers,
-      body: init?.body,
+      url: request.url,
+      method: request.method,
+      headers,
+      body: body || undefined,
     });
 
     return new Response(result.body, {
@@ -182,8 +270,9 @@ function createSandboxedMemory() {
 
 /**
  * Create the sandboxed skills interface
+ * Skills run for the same hook call, and so the same profile, as the caller.
  */
-function createSandboxedSkills() {
+function createSandboxedSkills(hookId?: string) {
   const normalizeSkillName = (skillName: string) => {
     if (skillName.includes("__")) return skillName;
     return `${pluginId}__${skillName}`;
@@ -193,28 +282,73 @@ function createSandboxedSkills() {
       skillName: string,
       args: Record<string, unknown>,
     ): Promise<T> {
-      const result = await dispatchSysCall("skills.invoke", {
-        skillName: normalizeSkillName(skillName),
-        args,
-      });
+      const result = await dispatchSysCall(
+        "skills.invoke",
+        { skillName: normalizeSkillName(skillName), args },
+        hookId,
+      );
       return result as T;
     },
   };
 }
 
 /**
- * Create the plugin context
+ * Create the sandboxed event bus interface
  */
-function createContext(): PluginContext {
+function createSandboxedEvents() {
+  return {
+    async publish(topic: string, payload?: unknown): Promise<void> {
+      await dispatchSysCall("events.publish", { topic, payload });
+    },
+  };
+}
+
+/**
+ * Create the sandboxed secrets interface
+ */
+function createSandboxedSecrets() {
+  return {
+    async get(name: string): Promise<string | null> {
+      return dispatchSysCall("secrets.get", { name });
+    },
+  };
+}
+
+/**
+ * Create the sandboxed model interface
+ */
+function createSandboxedLLM() {
+  return {
+    async generate(options: LLMGenerateOptions): Promise<LLMGenerateResult> {
+      return dispatchSysCall("llm.generate", options);
+    },
+    async generateStructured<T = unknown>(
+      options: LLMStructuredOptions,
+    ): Promise<LLMStructuredResult<T>> {
+      return dispatchSysCall("llm.generateStructured", options);
+    },
+    async embed(options: LLMEmbedOptions): Promise<LLMEmbedResult> {
+      return dispatchSysCall("llm.embed", options);
+    },
+  };
+}
+
+/**
+ * Create the plugin context, for a hook call or for onLoad
+ */
+function createContext(hookId?: string): PluginContext {
   return {
     config: pluginConfig,
     permissions: pluginPermissions,
     pluginId,
-    db: createSandboxedDB(),
+    db: createSandboxedDB(hookId),
     fetch: createSandboxedFetch(),
     log: createSandboxedLogger(),
     memory: createSandboxedMemory(),
-    skills: createSandboxedSkills(),
+    skills: createSandboxedSkills(hookId),
+    events: createSandboxedEvents(),
+    secrets: createSandboxedSecrets(),
+    llm: createSandboxedLLM(),
     error(code: string, message: string): PluginError {
       const err = new Error(message) as PluginError;
       err.name = "PluginError";
@@ -262,6 +396,26 @@ async function handleMessage(event: MessageEvent<RPCMessage>) {
   }
 }
 
+/**
+ * List the hooks a plugin object implements, including class methods
+ */
+function listHooks(target: object): string[] {
+  const hooks = new Set<string>();
+  let current: object | null = target;
+  while (current && current !== Object.prototype) {
+    for (const name of Object.getOwnPropertyNames(current)) {
+      if (
+        name !== "constructor" &&
+        typeof (target as Record<string, unknown>)[name] === "function"
+      ) {
+        hooks.add(name);
+      }
+    }
+    current = Object.getPrototypeOf(current);
+  }
+  return [...hooks].sort();
+}
+
 /**
  * Handle plugin initialization
  */
@@ -273,11 +427,17 @@ async function handleInit(msg: {
   config: Record<string, unknown>;
   permissions: Permissions;
   pluginId: string;
+  /** Absent from Cores without plugin-owned tables */
+  tableNames?: Record<string, string>;
+  usageReportIntervalMs?: number;
+  /** Protocol version the Core chose (absent from v1 Cores) */
+  protocolVersion?: number;
 }) {
   try {
     pluginConfig = msg.config;
     pluginPermissions = msg.permissions;
     pluginId = msg.pluginId;
+    pluginTableNames = msg.tableNames ?? {};
 
     const resolvedPluginPath = path.resolve(msg.pluginPath);
     const resolvedEntryPath = path.resolve(msg.entryPath);
@@ -294,6 +454,17 @@ async function handleInit(msg: {
       throw new Error("Plugin entry path must stay within plugin directory");
     }
 
+    // Plugins reach the outside world only through the permission-checked
+    // context: refuse modules that load I/O built-ins, then strip the globals
+    // and code generation, which is what actually keeps the built-ins out
+    const violations = checkModuleGraph(resolvedEntryPath);
+    if (violations.length > 0) {
+      throw new Error(
+        `Plugin uses APIs outside the sandbox: ${violations.join("; ")}`,
+      );
+    }
+    lockDownGlobals(createSandboxedFetch() as typeof fetch);
+
     // Dynamically import the plugin
     const module = await import(resolvedEntryPath);
     plugin = module.default || module;
@@ -303,7 +474,15 @@ async function handleInit(msg: {
       await plugin.onLoad(createContext());
     }
 
-    postMessage(createSuccessResponse(msg.id, { loaded: true }));
+    if (msg.usageReportIntervalMs) {
+      startUsageReports(msg.usageReportIntervalMs);
+    }
+
+    const capabilities: RPCCapabilities = {
+      hooks: plugin ? listHooks(plugin) : [],
+      syscalls: SYSCALL_VERSIONS,
+    };
+    postMessage(createSuccessResponse(msg.id, { loaded: true, ...capabilities }));
   } catch (error) {
     const err = error as Error;
     postMessage(
@@ -323,6 +502,11 @@ async function handleHookCall(request: RPCHookRequest) {
     return;
   }
 
+  // The Core hands over new configuration along with this hook
+  if (request.method === "onConfigChange") {
+    pluginConfig = (request.payload as ConfigChange).config;
+  }
+
   const hookName = request.method as keyof FrontclawPlugin;
   const hook = plugin[hookName];
 
@@ -333,7 +517,7 @@ async function handleHookCall(request: RPCHookRequest) {
   }
 
   try {
-    const ctx = createContext();
+    const ctx = createContext(request.id);
     const args = toHookArgs(request.method, request.payload);
     const result = await (hook as Function).call(plugin, ctx, ...args);
     postMessage(createSuccessResponse(request.id, result));
@@ -370,5 +554,10 @@ function toHookArgs(method: string, payload: unknown): unknown[] {
 // Set up message handler
 self.onmessage = handleMessage;
 
-// Signal that the sandbox is ready
-postMessage({ type: "SANDBOX_READY" });
+// Signal that the sandbox is ready, along with the protocol versions it speaks
+postMessage({
+  type: "SANDBOX_READY",
+  protocolVersion: RPC_PROTOCOL_VERSION,
+  minProtocolVersion: MIN_RPC_PROTOCOL_VERSION,
+  sdkVersion: SDK_VERSION,
+} satisfies RPCSandboxReady);
@@ -0,0 +1,43 @@
+/**
+ * Plugin Stdio Host
+ * Runs the sandbox in a child process, exchanging RPC messages with the Core
+ * as newline-delimited JSON: requests on stdin, one message per line on stdout
+ */
+
+const writeStdout = process.stdout.write.bind(process.stdout);
+const exit = process.exit.bind(process);
+
+// stdout carries the protocol, so plugin logging goes to stderr
+console.log = console.error;
+console.info = console.error;
+console.debug = console.error;
+
+// Die on uncaught errors like a Worker does, so the Core sees a crash
+process.on("uncaughtException", (error) => {
+  console.error(error);
+  exit(1);
+});
+
+// The sandbox talks through the worker messaging globals
+globalThis.postMessage = (message: unknown) => {
+  writeStdout(`${JSON.stringify(message)}\n`);
+};
+
+await import("./sandbox.js");
+
+for await (const line of console) {
+  if (!line.trim()) continue;
+
+  let data: unknown;
+  try {
+    data = JSON.parse(line);
+  } catch {
+    console.error(`Ignoring malformed message from Core: ${line.slice(0, 200)}`);
+    continue;
+  }
+
+  self.onmessage?.(new MessageEvent("message", { data }));
+}
+
+// The Core closed our stdin: it is gone or stopped us
+exit(0);
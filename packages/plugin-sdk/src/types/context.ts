@@ -3,6 +3,7 @@
  * The sandboxed context passed to plugin hooks
  */
 
+import type { ChatMessage } from "./hooks";
 import type { Permissions } from "./permissions";
 
 /** Database query result */
@@ -13,6 +14,9 @@ export interface DBQueryResult<T = unknown> {
 
 /** Sandboxed database interface */
 export interface SandboxedDB {
+  /** Database name of one of the plugin's own tables (see frontclaw.json) */
+  table(name: string): string;
+
   /** Execute a read query */
   query<T = unknown>(
     sql: string,
@@ -31,11 +35,37 @@ export interface SandboxedDB {
 
   /** Get a single item by ID */
   getItem<T = unknown>(table: string, id: string): Promise<T | null>;
+
+  /** Insert a row and return it (needs read-write access) */
+  insertItem<T = unknown>(
+    table: string,
+    values: Record<string, unknown>,
+  ): Promise<T>;
+
+  /** Update a row by ID and return it, or null if there is no such row */
+  updateItem<T = unknown>(
+    table: string,
+    id: string,
+    values: Record<string, unknown>,
+  ): Promise<T | null>;
+
+  /** Delete a row by ID, resolving whether there was one */
+  deleteItem(table: string, id: string): Promise<boolean>;
+
+  /**
+   * Insert a row, or update the row with the same values in the
+   * onConflict columns (["id"] by default), and return it
+   */
+  upsert<T = unknown>(
+    table: string,
+    values: Record<string, unknown>,
+    options?: { onConflict?: string[] },
+  ): Promise<T>;
 }
 
 /** Sandboxed fetch interface */
 export interface SandboxedFetch {
-  (url: string, init?: RequestInit): Promise<Response>;
+  (input: string | URL | Request, init?: RequestInit): Promise<Response>;
 }
 
 /** Sandboxed logger interface */
@@ -66,6 +96,87 @@ export interface SandboxedSkills {
   ): Promise<T>;
 }
 
+/** Sandboxed event bus interface */
+export interface SandboxedEvents {
+  /**
+   * Publish an event to subscribed plugins. Resolves once the event is
+   * accepted, without waiting for subscribers to handle it.
+   */
+  publish(topic: string, payload?: unknown): Promise<void>;
+}
+
+/** Sandboxed secrets interface */
+export interface SandboxedSecrets {
+  /**
+   * Get a secret declared in the manifest's `secrets`. Resolves to null when
+   * an optional secret isn't set, and rejects for a required one.
+   */
+  get(name: string): Promise<string | null>;
+}
+
+/** A request to the configured model */
+export interface LLMGenerateOptions {
+  /** Single user message; use messages for a conversation */
+  prompt?: string;
+  messages?: ChatMessage[];
+  /** System prompt, prepended to the messages */
+  system?: string;
+  /** Most tokens to generate; defaults to llm.max_tokens_per_request */
+  maxTokens?: number;
+  temperature?: number;
+}
+
+/** Tokens a model call used */
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LLMGenerateResult {
+  text: string;
+  finishReason: "stop" | "length" | "tool-calls" | "content-filter" | "other";
+  usage: LLMUsage;
+}
+
+/** A request for output matching a JSON Schema */
+export interface LLMStructuredOptions extends LLMGenerateOptions {
+  /** JSON Schema the output must match */
+  schema: Record<string, unknown>;
+  schemaName?: string;
+  schemaDescription?: string;
+}
+
+export interface LLMStructuredResult<T = unknown> {
+  data: T;
+  usage: LLMUsage;
+}
+
+/** A request for embeddings from the configured embedding model */
+export interface LLMEmbedOptions {
+  text: string | string[];
+  /** Vector size, for models that support choosing it */
+  dimensions?: number;
+}
+
+export interface LLMEmbedResult {
+  /** One vector per text, in the same order */
+  embeddings: number[][];
+  usage: Pick<LLMUsage, "promptTokens" | "totalTokens">;
+}
+
+/** Sandboxed model access */
+export interface SandboxedLLM {
+  /** Generate text (needs llm.can_generate) */
+  generate(options: LLMGenerateOptions): Promise<LLMGenerateResult>;
+  /** Generate JSON matching a schema (needs llm.can_generate) */
+  generateStructured<T = unknown>(
+    options: LLMStructuredOptions,
+  ): Promise<LLMStructuredResult<T>>;
+  /** Compute embeddings (needs llm.can_embed) */
+  embed(options: LLMEmbedOptions): Promise<LLMEmbedResult>;
+}
+
 /** Socket client interface passed to plugins */
 export interface SocketClient {
   id: string;
@@ -99,6 +210,15 @@ export interface PluginContext {
   /** Sandboxed skills */
   readonly skills: SandboxedSkills;
 
+  /** Sandboxed event bus */
+  readonly events: SandboxedEvents;
+
+  /** Sandboxed secrets */
+  readonly secrets: SandboxedSecrets;
+
+  /** Sandboxed access to the configured model */
+  readonly llm: SandboxedLLM;
+
   /** Create a security error that stops the pipeline */
   error(code: string, message: string): PluginError;
 
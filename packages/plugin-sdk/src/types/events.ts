@@ -0,0 +1,24 @@
+/**
+ * Event Types
+ * Defines the events plugins publish and receive on the event bus
+ */
+
+/** Topics the Core publishes; plugins can subscribe to them but not publish */
+export const CORE_EVENT_TOPICS = [
+  "conversation.created",
+  "message.persisted",
+  "item.ingested",
+] as const;
+
+export type CoreEventTopic = (typeof CORE_EVENT_TOPICS)[number];
+
+/** An event delivered to onEvent */
+export interface PluginEvent<T = unknown> {
+  id: string;
+  /** Dot-separated topic (e.g. "catalog.synced") */
+  topic: string;
+  payload: T;
+  /** ID of the publishing plugin, or "core" for Core topics */
+  source: string;
+  publishedAt: string;
+}
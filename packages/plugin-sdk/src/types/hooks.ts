@@ -8,6 +8,7 @@ import type {
   SocketClient,
   PluginInterceptResult,
 } from "./context";
+import type { PluginEvent } from "./events";
 
 /** Tool definition for LLM function calling */
 export interface ToolDefinition {
@@ -102,6 +103,14 @@ export interface HTTPRequestContext {
   body: unknown;
 }
 
+/** New configuration handed to a running plugin */
+export interface ConfigChange {
+  /** Configuration now in effect (also on ctx.config) */
+  config: Record<string, unknown>;
+  /** Configuration before the change */
+  previous: Record<string, unknown>;
+}
+
 /** HTTP response builder */
 export interface HTTPResponse {
   status: number;
@@ -124,6 +133,17 @@ export interface PluginHooks {
   /** Called when the plugin is about to be unloaded */
   onUnload?(ctx: PluginContext): Promise<void>;
 
+  /**
+   * Called when the plugin's configuration changes at runtime.
+   * Plugins without this hook are restarted to pick up new configuration.
+   */
+  onConfigChange?(ctx: PluginContext, change: ConfigChange): Promise<void>;
+
+  /**
+   * Run a job declared in the manifest's `schedules`
+   */
+  onSchedule?(ctx: PluginContext, jobName: string): Promise<void>;
+
   // ─────────────────────────────────────────────────────────────
   // PROMPT PIPELINE HOOKS
   // ─────────────────────────────────────────────────────────────
@@ -229,6 +249,16 @@ export interface PluginHooks {
    */
   onSocketDisconnect?(ctx: PluginContext, client: SocketClient): Promise<void>;
 
+  // ─────────────────────────────────────────────────────────────
+  // EVENT HOOKS
+  // ─────────────────────────────────────────────────────────────
+
+  /**
+   * Receive an event on a topic listed in the manifest's `subscriptions`.
+   * Events a plugin publishes itself are not delivered back to it.
+   */
+  onEvent?(ctx: PluginContext, event: PluginEvent): Promise<void>;
+
   // ─────────────────────────────────────────────────────────────
   // HTTP ROUTE HOOKS
   // ─────────────────────────────────────────────────────────────
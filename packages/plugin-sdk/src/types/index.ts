@@ -17,3 +17,6 @@ export * from "./context.js";
 
 // Hooks
 export * from "./hooks.js";
+
+// Events
+export * from "./events.js";
@@ -4,7 +4,78 @@
  */
 
 import { z } from "zod";
-import { PermissionsSchema } from "./permissions.js";
+import { PermissionsSchema, type Permissions } from "./permissions.js";
+
+/** Resource limits for a plugin's worker */
+export const ResourceLimitsSchema = z.object({
+  /**
+   * Maximum memory (MB): the resident size of a stdio plugin's process,
+   * measured by the Core. Worker heaps can only be reported by the sandbox
+   * itself, so for worker plugins the limit is advisory.
+   */
+  maxHeapMb: z.number().int().positive().optional(),
+
+  /** Maximum number of hook calls in flight at once */
+  maxConcurrentHooks: z.number().int().positive().optional(),
+
+  /** Wall-clock budget for a single hook call (ms) */
+  hookBudgetMs: z.number().int().positive().optional(),
+});
+
+export type ResourceLimits = z.infer<typeof ResourceLimitsSchema>;
+
+/** A job the Core runs on a timer by calling the plugin's onSchedule hook */
+export const ScheduleSchema = z.object({
+  /** Job name passed to onSchedule (unique within the plugin) */
+  name: z
+    .string()
+    .regex(
+      /^[a-z][a-z0-9-]*$/,
+      "Job name must be kebab-case starting with a letter",
+    ),
+
+  /** Five-field cron expression (e.g. "30 2 * * *") or @hourly, @daily, ... */
+  cron: z.string().min(1),
+
+  /** Random delay added to each run, so plugins don't all fire at once (ms) */
+  jitterMs: z.number().int().nonnegative().default(0),
+});
+
+export type Schedule = z.infer<typeof ScheduleSchema>;
+
+/** A secret the operator supplies and the plugin reads with ctx.secrets */
+export const SecretSchema = z.object({
+  /** Secret name passed to ctx.secrets.get (unique within the plugin) */
+  name: z
+    .string()
+    .regex(
+      /^[A-Z][A-Z0-9]*(_[A-Z0-9]+)*$/,
+      "Secret name must be UPPER_SNAKE_CASE starting with a letter",
+    ),
+
+  /** What the secret is for, shown to operators */
+  description: z.string().optional(),
+
+  /** ctx.secrets.get rejects instead of returning null when it isn't set */
+  required: z.boolean().default(true),
+});
+
+export type Secret = z.infer<typeof SecretSchema>;
+
+/** A versioned change to the plugin's own tables */
+export const MigrationSchema = z.object({
+  /** Migrations run once each, in increasing version order */
+  version: z.number().int().positive(),
+
+  /**
+   * SQL run in one transaction with the migration's version record. It may
+   * only create, change and drop the plugin's own tables and their indexes,
+   * and read and write their rows.
+   */
+  sql: z.string().min(1),
+});
+
+export type Migration = z.infer<typeof MigrationSchema>;
 
 /** Plugin manifest schema */
 export const PluginManifestSchema = z.object({
@@ -36,12 +107,69 @@ export const PluginManifestSchema = z.object({
     })
     .optional(),
 
-  /** Execution priority (lower = earlier in pipeline) */
+  /** Execution priority (lower = earlier in pipeline, though always after dependencies) */
   priority: z.number().int().min(0).max(1000).default(100),
 
+  /** Other plugins this plugin needs, mapped to a semver range (e.g. "^1.2.0") */
+  dependencies: z
+    .record(
+      z
+        .string()
+        .regex(
+          /^[a-z][a-z0-9-]*$/,
+          "Dependency must be a kebab-case plugin ID",
+        ),
+      z.string().min(1),
+    )
+    .optional()
+    .default({}),
+
   /** Required permissions */
   permissions: PermissionsSchema,
 
+  /** Resource limits the plugin asks to run under (operators can tighten them) */
+  limits: ResourceLimitsSchema.optional().default({}),
+
+  /**
+   * The plugin keeps no state between hook calls outside ctx.memory,
+   * so the Core may run several instances of it side by side
+   */
+  stateless: z.boolean().default(false),
+
+  /** Workers to run for a stateless plugin (operators can cap or override it) */
+  workers: z.number().int().positive().optional(),
+
+  /** Jobs to run on a timer; a run is skipped while the previous one is busy */
+  schedules: z.array(ScheduleSchema).optional().default([]),
+
+  /**
+   * Event topics delivered to onEvent, as exact topics, "prefix.*" or "*".
+   * Each must also be allowed by permissions.events.subscribe.
+   */
+  subscriptions: z.array(z.string()).optional().default([]),
+
+  /** Secrets the plugin may read; no other secret is ever returned to it */
+  secrets: z.array(SecretSchema).optional().default([]),
+
+  /**
+   * Tables the plugin owns, which the Core names after the plugin (see
+   * LoadedPluginManifest.tableNames) and lets it read and write
+   */
+  tables: z
+    .array(
+      z
+        .string()
+        .regex(
+          /^[a-z][a-z0-9]*(_[a-z0-9]+)*$/,
+          "Table name must be snake_case starting with a letter",
+        ),
+    )
+    .optional()
+    .default([]),
+
+  /** Migrations creating and changing the plugin's tables */
+  migrations: z.array(MigrationSchema).optional().default([]),
+
   /** Plugin-specific configuration schema (JSON Schema) */
   configSchema: z.record(z.unknown()).optional(),
 
@@ -51,9 +179,25 @@ export const PluginManifestSchema = z.object({
   /** Entry point file (relative to plugin root) */
   main: z.string().default("index.ts"),
 
+  /**
+   * How the plugin runs: in a Bun Worker inside the server, or as a child
+   * process exchanging RPC messages as newline-delimited JSON over stdio
+   */
+  transport: z.enum(["worker", "stdio"]).default("worker"),
+
+  /**
+   * Command starting a stdio plugin, run from the plugin root
+   * (e.g. ["python3", "main.py"]). Defaults to the SDK's Bun host for `main`.
+   * The Core only loads the plugin if the operator approved this command.
+   */
+  command: z.array(z.string().min(1)).min(1).optional(),
+
   /** Minimum Frontclaw version required */
   minFrontclawVersion: z.string().optional(),
 
+  /** Semver range of Frontclaw versions the plugin works with (e.g. ">=1.2.0 <2.0.0") */
+  frontclawVersion: z.string().optional(),
+
   /** Tags for categorization */
   tags: z.array(z.string()).optional().default([]),
 
@@ -63,6 +207,24 @@ export const PluginManifestSchema = z.object({
 
 export type PluginManifest = z.infer<typeof PluginManifestSchema>;
 
+/** Whether a plugin can run on the current Frontclaw core */
+export interface PluginCompatibility {
+  /** "unspecified" when the manifest declares no version constraint */
+  status: "compatible" | "incompatible" | "unspecified";
+
+  /** Version of the Frontclaw core that loaded the plugin */
+  hostVersion: string;
+
+  /** Version range declared by the plugin */
+  range?: string;
+
+  /** Why the plugin is incompatible */
+  reason?: string;
+
+  /** Set when the core lists the incompatible plugin but won't start it */
+  rejected?: boolean;
+}
+
 /** Validated and loaded plugin manifest with resolved paths */
 export interface LoadedPluginManifest extends PluginManifest {
   /** Absolute path to the plugin directory */
@@ -73,4 +235,19 @@ export interface LoadedPluginManifest extends PluginManifest {
 
   /** User-provided configuration (merged with defaults) */
   config: Record<string, unknown>;
+
+  /** Permissions as declared in frontclaw.json, before the operator policy */
+  declaredPermissions: Permissions;
+
+  /** Compatibility with the running Frontclaw core */
+  compatibility: PluginCompatibility;
+
+  /** Database names of the plugin's own tables, by the name it declares */
+  tableNames: Record<string, string>;
+
+  /**
+   * Where the plugin came from: shipped in the plugins directory, or
+   * installed from a registry (and so run as third-party code)
+   */
+  source: "bundled" | "registry";
 }
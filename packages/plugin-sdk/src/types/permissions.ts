@@ -9,6 +9,14 @@ import { z } from "zod";
 export const DBPermissionSchema = z.object({
   tables: z.array(z.string()),
   access: z.enum(["read-only", "read-write"]),
+  /** Columns the plugin may see, per table; unlisted tables show them all */
+  columns: z.record(z.string(), z.array(z.string())).optional(),
+  /**
+   * SQL conditions on the rows the plugin may see, per table
+   * (e.g. "status = 'active'"); current_profile_id() is the profile the
+   * hook was called for, or NULL without one
+   */
+  row_filters: z.record(z.string(), z.string()).optional(),
 });
 export type DBPermission = z.infer<typeof DBPermissionSchema>;
 
@@ -16,6 +24,8 @@ export type DBPermission = z.infer<typeof DBPermissionSchema>;
 export const NetworkPermissionSchema = z.object({
   allowed_domains: z.array(z.string()),
   allow_all: z.boolean().optional().default(false),
+  /** Domains blocked even when allowed above (operator policies add to this) */
+  denied_domains: z.array(z.string()).optional(),
 });
 export type NetworkPermission = z.infer<typeof NetworkPermissionSchema>;
 
@@ -25,6 +35,11 @@ export const LLMPermissionSchema = z.object({
   can_modify_prompt: z.boolean().optional().default(false),
   can_modify_system_message: z.boolean().optional().default(false),
   can_modify_response: z.boolean().optional().default(false),
+  /** Call the configured model through ctx.llm */
+  can_generate: z.boolean().optional().default(false),
+  /** Compute embeddings through ctx.llm.embed */
+  can_embed: z.boolean().optional().default(false),
+  /** Most tokens a ctx.llm call may generate */
   max_tokens_per_request: z.number().optional(),
 });
 export type LLMPermission = z.infer<typeof LLMPermissionSchema>;
@@ -44,6 +59,17 @@ export const SocketPermissionSchema = z.object({
 });
 export type SocketPermission = z.infer<typeof SocketPermissionSchema>;
 
+/**
+ * Event bus permissions, as topic patterns: exact topics, "prefix.*" or "*"
+ */
+export const EventsPermissionSchema = z.object({
+  /** Topics the plugin may publish */
+  publish: z.array(z.string()).optional().default([]),
+  /** Topics the plugin may receive */
+  subscribe: z.array(z.string()).optional().default([]),
+});
+export type EventsPermission = z.infer<typeof EventsPermissionSchema>;
+
 /** Logging permissions */
 export const LogPermissionSchema = z.object({
   enabled: z.boolean().optional().default(true),
@@ -61,6 +87,7 @@ export const PermissionsSchema = z.object({
   llm: LLMPermissionSchema.optional(),
   api: APIPermissionSchema.optional(),
   socket: SocketPermissionSchema.optional(),
+  events: EventsPermissionSchema.optional(),
   skills: z.array(z.string()).optional(),
   memory: z
     .object({
@@ -3,6 +3,19 @@
  * These types define the communication protocol between Core and Plugin Workers
  */
 
+/**
+ * RPC protocol version spoken by this SDK
+ * v1: SANDBOX_READY/INIT without version or capability information
+ * v2: versioned handshake; the INIT response lists hooks and syscalls
+ */
+export const RPC_PROTOCOL_VERSION = 2;
+
+/** Oldest RPC protocol version this SDK still speaks */
+export const MIN_RPC_PROTOCOL_VERSION = 1;
+
+/** Plugin SDK version, reported during the handshake */
+export const SDK_VERSION = "0.0.1";
+
 /** Unique identifier for RPC requests */
 export type RPCRequestId = string;
 
@@ -28,6 +41,8 @@ export interface RPCSysCallRequest extends RPCEnvelope {
   type: "SYS_CALL";
   method: string;
   payload: unknown;
+  /** Hook call the plugin made it while handling, if any */
+  hookId?: RPCRequestId;
 }
 
 /** Successful response */
@@ -48,6 +63,24 @@ export interface RPCErrorResponse extends RPCEnvelope {
   };
 }
 
+/** Sent by the sandbox once it can accept INIT */
+export interface RPCSandboxReady {
+  type: "SANDBOX_READY";
+  /** Highest protocol version the sandbox speaks (absent before v2) */
+  protocolVersion?: number;
+  /** Oldest protocol version the sandbox speaks */
+  minProtocolVersion?: number;
+  sdkVersion?: string;
+}
+
+/** What a loaded plugin offers, returned in the INIT response since v2 */
+export interface RPCCapabilities {
+  /** Hooks the plugin implements */
+  hooks: string[];
+  /** Syscalls the sandbox may issue, with the version of each it speaks */
+  syscalls: Record<string, number>;
+}
+
 /** Union of all response types */
 export type RPCResponse = RPCSuccessResponse | RPCErrorResponse;
 
@@ -80,12 +113,14 @@ export function createHookRequest(
 export function createSysCallRequest(
   method: string,
   payload: unknown,
+  hookId?: RPCRequestId,
 ): RPCSysCallRequest {
   return {
     id: createRequestId(),
     type: "SYS_CALL",
     method,
     payload,
+    hookId,
     timestamp: Date.now(),
   };
 }
@@ -103,6 +103,23 @@ export const FeaturesSchema = z.object({
 });
 export type Features = z.infer<typeof FeaturesSchema>;
 
+export const PluginsSchema = z.object({
+  /** Operator permission policy file, relative to this config file */
+  permission_policy: z.string().optional(),
+  /** Local registry directory plugins are installed from */
+  registry: z.string().optional(),
+  /** Publisher public key files (PEM) by key ID, relative to this config file */
+  trusted_keys: z.record(z.string(), z.string()).optional(),
+  /** Only install signed packages */
+  require_signature: z.boolean().optional(),
+  /**
+   * Encrypted file of plugin secrets, relative to this config file
+   * (the key comes from the PLUGIN_SECRETS_KEY environment variable)
+   */
+  secrets_file: z.string().optional(),
+});
+export type Plugins = z.infer<typeof PluginsSchema>;
+
 export const FrontClawSchemaSchema = z
   .object({
     version: z.string().optional().default("1.0.0"),
@@ -115,6 +132,7 @@ export const FrontClawSchemaSchema = z
     features: FeaturesSchema.optional().default({}),
     embedded_box: EmbeddedBoxSchema.optional().default({}),
     webhooks: WebhooksSchema.optional().default({}),
+    plugins: PluginsSchema.optional().default({}),
   })
   .strict();
 export type FrontClawSchema = z.infer<typeof FrontClawSchemaSchema>;
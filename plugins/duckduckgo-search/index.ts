@@ -1,4 +1,4 @@
-import Firecrawl, { SearchData } from "@mendable/firecrawl-js";
+import type { SearchData } from "@mendable/firecrawl-js";
 import {
   definePlugin,
   type PluginContext,
@@ -6,10 +6,7 @@ import {
   type ToolResult,
 } from "@workspace/plugin-sdk";
 
-// TODO: create env/secret manager and use it
-const firecrawl = new Firecrawl({
-  apiKey: "fc-56594066db73450d9a98ceef47d872c7",
-});
+const FIRECRAWL_SEARCH_URL = "https://api.firecrawl.dev/v2/search";
 
 const TOOL_NAME = "search_web";
 
@@ -103,12 +100,34 @@ async function runDuckDuckGoSearch(
     query,
   });
 
+  // Declared in frontclaw.json and supplied by the operator
+  const apiKey = await ctx.secrets.get("FIRECRAWL_API_KEY");
+
   let results: SearchData;
   try {
-    results = await firecrawl.search(query, {
-      limit: 3,
-      scrapeOptions: { formats: ["markdown"] },
+    // The Firecrawl SDK uses node:http, which the sandbox blocks; go through
+    // ctx.fetch so the request is checked against our network permissions
+    const response = await ctx.fetch(FIRECRAWL_SEARCH_URL, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${apiKey}`,
+      },
+      body: JSON.stringify({
+        query,
+        limit: 3,
+        scrapeOptions: { formats: ["markdown"] },
+      }),
     });
+    const body = (await response.json()) as {
+      success?: boolean;
+      data?: SearchData;
+      error?: string;
+    };
+    if (!response.ok || !body.success) {
+      throw new Error(body.error || `HTTP ${response.status}`);
+    }
+    results = body.data ?? {};
   } catch (error) {
     ctx.log.error("DDG search step: API request failed", {
       source,